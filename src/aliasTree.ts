@@ -2,8 +2,10 @@
 'use strict';
 
 import * as vscode from 'vscode';
-import { headHtml, UpdateUriFunc, DisposableLikeList } from './functions';
+import { headHtml, UpdateUriFunc, DisposableLikeList,
+  commandLink } from './functions';
 import { gotoExpansionLocLink } from './fileList';
+import { exportScript } from './graphExport';
 import * as log from './log';
 import * as msg from './messages';
 import {Project, ProjectEngine} from './project';
@@ -32,7 +34,172 @@ interface Data {
   AliasTree: msg.AliasTree;
 }
 
-class AliasTreeProviderState extends ProjectWebviewProviderState<AliasTreeProvider> {
+/**
+ * Return description of a trait of a memory location, for example
+ * `(Add)` for a reduction or `(Int, 0:N:1)` for an induction variable.
+ *
+ * @param trait Name of a trait.
+ * @param dptr Description of a trait from MemoryLocation.Traits.
+ */
+export function describeTrait(trait: string, dptr: any): string {
+  let traitInfo = '';
+  if (trait == 'reduction') {
+    traitInfo += `(${dptr.Kind})`;
+  } else if (trait == 'induction') {
+    traitInfo += '(' + dptr.Kind;
+    if (dptr.Start || dptr.End || dptr.Step) {
+      traitInfo += ', ';
+      if (dptr.Start)
+        traitInfo += dptr.Start;
+      traitInfo += ':';
+      if (dptr.End)
+        traitInfo += dptr.End;
+      traitInfo += ':';
+      if (dptr.Step)
+        traitInfo += dptr.Step;
+    }
+    traitInfo += ')';
+  } else if (trait == 'anti' || trait == 'flow' || trait == 'output') {
+    traitInfo += '(';
+    if (dptr.May)
+      traitInfo += 'may';
+    else
+      traitInfo += 'must';
+    if (dptr.Causes && dptr.Causes.length > 0)
+      traitInfo += ', ' + dptr.Causes.join(', ');
+    if (dptr.Min || dptr.Max) {
+      traitInfo += ", ";
+      if (dptr.Min)
+        traitInfo += dptr.Min;
+      traitInfo += ':';
+      if (dptr.Max)
+        traitInfo += dptr.Max;
+    }
+    traitInfo += ')';
+  }
+  return traitInfo;
+}
+
+/**
+ * Filters of alias tree nodes, a node satisfies a filter if the whole node or
+ * some of its memory locations have one of listed traits.
+ */
+export const traitFilters: { [filter: string]: string[] } = {
+  dependence: ['flow', 'anti', 'output'],
+  private: ['private', 'first private', 'last private',
+    'second to last private', 'dynamic private'],
+  reduction: ['reduction'],
+  induction: ['induction']
+};
+
+/**
+ * Return names of source-level objects which are represented in a node.
+ */
+export function nodeObjects(n: msg.AliasNode): string[] {
+  let names: string[] = [];
+  for (let m of [...(n.SelfMemory || []), ...(n.CoveredMemory || [])])
+    if (m.Object && m.Object.Name && names.indexOf(m.Object.Name) < 0)
+      names.push(m.Object.Name);
+  return names;
+}
+
+/**
+ * Return traits which are set for the whole node or for some of its memory
+ * locations.
+ */
+export function nodeTraits(n: msg.AliasNode): string[] {
+  let traits = n.Traits.slice();
+  for (let m of [...(n.SelfMemory || []), ...(n.CoveredMemory || [])])
+    for (let t of Object.keys(m.Traits || {}))
+      if (traits.indexOf(t) < 0)
+        traits.push(t);
+  return traits;
+}
+
+/**
+ * Return memory locations of a node together with their traits.
+ *
+ * Traits which are set for the whole node are also attached to each memory
+ * location explicitly represented in the node.
+ */
+export function memoryTraits(n: msg.AliasNode):
+    [msg.MemoryLocation, string[]][] {
+  let result: [msg.MemoryLocation, string[]][] = [];
+  for (let m of n.SelfMemory || [])
+    result.push([m, Object.keys(m.Traits || {}).concat(
+      n.Traits.filter(t => !m.Traits || !(t in m.Traits)))]);
+  for (let m of n.CoveredMemory || [])
+    result.push([m, Object.keys(m.Traits || {})]);
+  return result;
+}
+
+/**
+ * Return filters (keys of `traitFilters`) which a node satisfies.
+ */
+export function nodeFilters(n: msg.AliasNode): string[] {
+  let traits = nodeTraits(n);
+  return Object.keys(traitFilters).filter(
+    f => traitFilters[f].some(t => traits.indexOf(t) >= 0));
+}
+
+/**
+ * Return true if there are flow, anti or output dependencies in the whole
+ * node or in some of its memory locations.
+ */
+export function hasDependence(n: msg.AliasNode): boolean {
+  return nodeTraits(n).some(t => traitFilters.dependence.indexOf(t) >= 0);
+}
+
+/**
+ * Return background color of a node: nodes with data dependencies are red,
+ * nodes which do not prevent parallelization are green.
+ */
+export function nodeBackground(n: msg.AliasNode): string {
+  if (n.Kind === 'Top')
+    return 'floralwhite';
+  if (hasDependence(n) || nodeTraits(n).indexOf('address access') >= 0)
+    return 'lightcoral';
+  if (n.Traits.some(t => t == 'shared' || t == 'read only' || t == 'private'))
+    return 'lightgreen';
+  return 'floralwhite';
+}
+
+export class AliasTreeProviderState extends ProjectWebviewProviderState<AliasTreeProvider> {
+  private _trees = new Map<string, msg.AliasTree|null>();
+
+  /**
+   * Return alias tree which is currently shown.
+   */
+  tree(): msg.AliasTree|undefined {
+    return this.data !== undefined ? (this.data as Data).AliasTree : undefined;
+  }
+
+  /**
+   * Return alias tree for a specified loop, request it from the server if
+   * it has not been received yet.
+   *
+   * The returned promise is resolved with `undefined` if the server can not
+   * build alias tree for the loop.
+   */
+  async aliasTree(project: Project, funcID: number, loopID: number):
+      Promise<msg.AliasTree|undefined> {
+    let key = `${funcID}:${loopID}`;
+    if (!this._trees.has(key)) {
+      let request = new msg.AliasTree;
+      request.FuncID = funcID;
+      request.LoopID = loopID;
+      try {
+        this._trees.set(key,
+          await project.send<msg.AliasTree>(request, { notify: false }));
+      }
+      catch (err) {
+        this._trees.set(key, null);
+      }
+    }
+    let tree = this._trees.get(key);
+    return tree === null ? undefined : tree;
+  }
+
   actual(request: any): boolean {
     if (request instanceof msg.FunctionList)
       return this.data !== undefined &&
@@ -54,6 +221,7 @@ class AliasTreeProviderState extends ProjectWebviewProviderState<AliasTreeProvid
         // We receive a new list of functions, so dropout a constructed alias tree
         // because it may be out of data.
         this.active = false;
+        this._trees.clear();
         let functions = new Map<number, msg.Function>();
         for (let f of response.Functions)
           functions.set(f.ID, f);
@@ -65,6 +233,7 @@ class AliasTreeProviderState extends ProjectWebviewProviderState<AliasTreeProvid
         return resolve(undefined);
       }
       if (response instanceof msg.AliasTree) {
+        this._trees.set(`${response.FuncID}:${response.LoopID}`, response);
         // We should build alias tree however there is no information about
         // functions. So, let us send corresponding requests to the server.
         if (this._data === undefined ||
@@ -141,42 +310,10 @@ export class AliasTreeProvider extends ProjectWebviewProvider {
         obj.push(info);
       }
       for (let t in m.Traits) {
-        let dptr = m.Traits[t];
         let traitInfo = info;
-        if (t == 'reduction') {
-          traitInfo += ` (${dptr.Kind})`;
-        } else if (t == 'induction') {
-          traitInfo += ' (' + dptr.Kind;
-          if (dptr.Start || dptr.End || dptr.Step) {
-            traitInfo += ', ';
-            if (dptr.Start)
-              traitInfo += dptr.Start;
-            traitInfo += ':';
-            if (dptr.End)
-              traitInfo += dptr.End;
-            traitInfo += ':';
-            if (dptr.Step)
-              traitInfo += dptr.Step;
-          }
-          traitInfo += ')';
-        } else if (t == 'anti' || t == 'flow' || t == 'output') {
-          traitInfo += ' (';
-          if (dptr.May)
-            traitInfo += 'may';
-          else
-            traitInfo += 'must';
-          if (dptr.Causes && dptr.Causes.length > 0)
-            traitInfo += ', ' + dptr.Causes.join(', ');
-          if (dptr.Min || dptr.Max) {
-            traitInfo += ", ";
-            if (dptr.Min)
-              traitInfo += dptr.Min;
-            traitInfo += ':';
-            if (dptr.Max)
-              traitInfo += dptr.Max;
-          }
-          traitInfo += ')';
-        }
+        let dptr = describeTrait(t, m.Traits[t]);
+        if (dptr)
+          traitInfo += ` ${dptr}`;
         let v = separateTraits[t];
         if (v === undefined)
           separateTraits[t] = {"separate": true, "union": false, "objects": [traitInfo]};
@@ -194,6 +331,9 @@ export class AliasTreeProvider extends ProjectWebviewProvider {
       asWebviewUri: UpdateUriFunc): string {
     let nodes = '';
     let edges = '';
+    let parents = new Map<number, number>();
+    for (let e of data.AliasTree.Edges)
+      parents.set(e.To, e.From);
     for (let n of data.AliasTree.Nodes) {
       let traits: any = {};
       let [selfLabel, selfDescription] = this._memoryInfo(project, n.SelfMemory, traits);
@@ -216,6 +356,9 @@ export class AliasTreeProvider extends ProjectWebviewProvider {
         traits: ${JSON.stringify(traits)},
         self: ${JSON.stringify(selfDescription)},
         covered: ${JSON.stringify(coveredDescription)},
+        names: ${JSON.stringify(nodeObjects(n))},
+        filters: ${JSON.stringify(nodeFilters(n))},
+        parent: ${parents.has(n.ID) ? parents.get(n.ID) : null},
         kind: '${n.Kind}'`;
       if (n.Kind === 'Top')
         nodes += ', shape: "database"';
@@ -223,24 +366,13 @@ export class AliasTreeProvider extends ProjectWebviewProvider {
         nodes += `, shape: 'circle'`
       else
         nodes +=`, label: '${selfLabel + coveredLabel}'`;
-      let background = "floralwhite";
-      if (n.Kind !== 'Top') {
-        for (let t in traits) {
-          if (t == 'anti' || t == 'flow' || t == 'output' || t == 'address access') {
-            background = 'lightcoral';
-            break;
-          }
-          if (traits[t].union &&
-              (t == 'shared' || t == 'read only' || t == 'private')) {
-            background = 'lightgreen';
-            break;
-          }
-        }
-      }
-      if (n.Coverage)
-        nodes += `,color: { border: "darkorange", background: "${background}"}`;
-      else
-        nodes += `,color: { background: "${background}"}`;
+      let background = nodeBackground(n);
+      // Remember the original color to restore it when focus is reset.
+      let color = JSON.stringify({
+        border: n.Coverage ? 'darkorange' : 'grey',
+        background
+      });
+      nodes += `,color: ${color}, baseColor: ${color}`;
       nodes += '},'
     }
     for (let e of data.AliasTree.Edges) {
@@ -270,7 +402,38 @@ export class AliasTreeProvider extends ProjectWebviewProvider {
             <h3>${this._title().replace('{0}', gotoTarget)}</h3>
             <div class="row" style="height:100%">
               <div class="col-9" style="height:100%">
-                <div id="aliasTree" style="height:90%"}></div>
+                <div class="form-inline pb-2">
+                  ${commandLink({
+                    command: 'tsar.alias.export',
+                    project,
+                    title: log.Export.title,
+                    body: '&#8615;',
+                    query: {}
+                  })}&nbsp;
+                  <input id="search" type="search"
+                         class="form-control form-control-sm mr-2"
+                         placeholder="${log.AliasTree.search}">
+                  <span id="found" class="small mr-3"></span>
+                  <select id="traitFilter"
+                          class="form-control form-control-sm mr-3">
+                    <option value="">${log.AliasTree.allNodes}</option>
+                    ${Object.keys(traitFilters).map(f => `
+                    <option value="${f}">
+                      ${log.AliasTree.filter.replace('{0}', f)}
+                    </option>`).join('')}
+                  </select>
+                  <button id="focus" type="button"
+                          class="btn btn-sm btn-outline-secondary mr-2"
+                          title="${log.AliasTree.focusTitle}">
+                    ${log.AliasTree.focus}
+                  </button>
+                  <button id="expand" type="button"
+                          class="btn btn-sm btn-outline-secondary"
+                          title="${log.AliasTree.collapseTitle}">
+                    ${log.AliasTree.expand}
+                  </button>
+                </div>
+                <div id="aliasTree" style="height:85%"></div>
               </div>
               <div class="col-3" style="height:90%">
                 <div id="memoryInfo" style="max-height:60%; overflow:scroll"></div>
@@ -315,6 +478,100 @@ export class AliasTreeProvider extends ProjectWebviewProvider {
               }
             };
             var network = new vis.Network(container, data, options);
+            const vscode = acquireVsCodeApi();
+            ${exportScript('aliasTree')}
+            const filters = document.getElementById('traitFilter');
+            const search = document.getElementById('search');
+            const found = document.getElementById('found');
+            const focusButton = document.getElementById('focus');
+            // Nodes with collapsed subtrees and the node in focus.
+            const collapsed = new Set();
+            let focused = null;
+            const parent = n => n.parent !== null ? nodes.get(n.parent) : null;
+            const ancestors = id => {
+              const path = [];
+              for (let n = nodes.get(id); n; n = parent(n))
+                path.push(n.id);
+              return path;
+            };
+            const isDescendant = (n, ids) => {
+              for (let p = parent(n); p; p = parent(p))
+                if (ids.has(p.id))
+                  return true;
+              return false;
+            };
+            // Show nodes which satisfy the trait filter and their ancestors,
+            // hide subtrees of collapsed nodes and dim nodes outside the path
+            // to the focused node.
+            const update = () => {
+              const visible = new Set();
+              nodes.forEach(n => {
+                if (!filters.value || n.filters.includes(filters.value))
+                  ancestors(n.id).forEach(id => visible.add(id));
+              });
+              const path = focused !== null ? new Set(ancestors(focused)) : null;
+              nodes.update(nodes.map(n => {
+                const isDimmed = path !== null && !path.has(n.id);
+                return {
+                  id: n.id,
+                  hidden: !visible.has(n.id) || isDescendant(n, collapsed),
+                  color: isDimmed
+                    ? { border: 'gainsboro', background: 'whitesmoke' }
+                    : n.baseColor,
+                  font: { color: isDimmed ? 'silver' : '#343434' },
+                  shapeProperties: {
+                    borderDashes: collapsed.has(n.id) ? [5, 5] : false
+                  }
+                };
+              }));
+              edges.update(edges.map(e => ({
+                id: e.id,
+                color: {
+                  color: path === null || path.has(e.from) && path.has(e.to)
+                    ? '#2B7CE9' : 'gainsboro'
+                }
+              })));
+              focusButton.innerText = focused !== null
+                ? '${log.AliasTree.unfocus}' : '${log.AliasTree.focus}';
+            };
+            const find = () => {
+              const text = search.value.trim().toLowerCase();
+              if (!text) {
+                found.innerText = '';
+                network.unselectAll();
+                return;
+              }
+              const ids = nodes.getIds({
+                filter: n => !n.hidden &&
+                  n.names.some(name => name.toLowerCase().includes(text))
+              });
+              found.innerText = '${log.AliasTree.found}'.replace('{0}', ids.length);
+              network.selectNodes(ids);
+              if (ids.length > 0)
+                network.fit({ nodes: ids, animation: true });
+            };
+            search.addEventListener('input', find);
+            filters.addEventListener('change', () => { update(); find(); });
+            focusButton.addEventListener('click', () => {
+              const selected = network.getSelectedNodes();
+              focused = selected.length == 1 && selected[0] !== focused
+                ? selected[0] : null;
+              update();
+            });
+            document.getElementById('expand').addEventListener('click', () => {
+              collapsed.clear();
+              update();
+            });
+            network.on('doubleClick', selected => {
+              if (!selected.nodes || selected.nodes.length != 1)
+                return;
+              const id = selected.nodes[0];
+              if (collapsed.has(id))
+                collapsed.delete(id);
+              else if (nodes.get({ filter: n => n.parent === id }).length > 0)
+                collapsed.add(id);
+              update();
+            });
             network.on('click', selected => {
               const memoryInfo = document.getElementById('memoryInfo');
               const traitInfo = document.getElementById('traitInfo');
@@ -0,0 +1,268 @@
+//===--- blockers.ts ----------- Why Not Parallel ----------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements provider to explain why a loop is not parallel. It
+// puts together reasons which are already reported by the server: data
+// dependencies from the alias tree of the loop, statements which lead to
+// unsafe control flow or perform in/out operations and properties of the loop
+// (canonical form and perfect nesting). Each reason refers to its locations
+// in sources.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { AliasTreeProvider, AliasTreeProviderState, describeTrait,
+  memoryTraits, traitFilters } from './aliasTree';
+import { gotoExpansionLocLink } from './fileList';
+import { DisposableLikeList, headHtml, UpdateUriFunc } from './functions';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { Project, ProjectEngine } from './project';
+import { ProjectWebviewProviderState,
+  ProjectWebviewProvider } from './webviewProvider';
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let showBlockers = vscode.commands.registerCommand('tsar.loop.blockers',
+    (uri: vscode.Uri) => {
+      let project = engine.project(uri);
+      let state = project.providerState(
+        BlockersProvider.scheme) as BlockersProviderState;
+      let query = JSON.parse(uri.query);
+      state.target = { FuncID: query.FuncID, LoopID: query.LoopID };
+      project.focus = state;
+      if (state.active)
+        state.provider.update(project);
+      else
+        state.active = true;
+    });
+  subscriptions.push(showBlockers);
+}
+
+/**
+ * Reason which prevents parallel execution of a loop.
+ */
+export interface Blocker {
+  /**
+   * Human-readable description of the reason.
+   */
+  description: string;
+
+  /**
+   * Locations in sources which are related to the reason.
+   */
+  locations: msg.Location[];
+}
+
+/**
+ * Return reasons which prevent parallel execution of a loop.
+ *
+ * @param tree Alias tree of the loop if it is available.
+ * @param unsafe Statements in the loop which lead to unsafe control flow.
+ * @param inout Statements in the loop which perform in/out operations.
+ * @param functions Functions of a project to find names of callees.
+ */
+export function loopBlockers(loop: msg.Loop, tree?: msg.AliasTree,
+    unsafe: msg.CalleeFuncInfo[] = [], inout: msg.CalleeFuncInfo[] = [],
+    functions: msg.Function[] = []): Blocker[] {
+  let blockers: Blocker[] = [];
+  if (loop.Traits.IsAnalyzed !== 'Yes')
+    blockers.push({
+      description: log.Blockers.notAnalyzed,
+      locations: [loop.StartLocation]
+    });
+  if (loop.Traits.Canonical !== 'Yes')
+    blockers.push({
+      description: log.Blockers.notCanonical,
+      locations: [loop.StartLocation]
+    });
+  if (loop.Traits.Perfect !== 'Yes')
+    blockers.push({
+      description: log.Blockers.notPerfect,
+      locations: [loop.StartLocation]
+    });
+  if (tree !== undefined)
+    for (let n of tree.Nodes)
+      for (let [m, traits] of memoryTraits(n)) {
+        let name = m.Object && m.Object.Name ? m.Object.Name : m.Address;
+        for (let t of traits.filter(
+              t => traitFilters.dependence.indexOf(t) >= 0)) {
+          let dptr = m.Traits && m.Traits[t] ? describeTrait(t, m.Traits[t])
+            : '';
+          blockers.push({
+            description: log.Blockers.dependence.replace('{0}', t)
+              .replace('{1}', name).replace('{2}', dptr).trim(),
+            locations: m.Locations || []
+          });
+        }
+      }
+  let statement = (info: msg.CalleeFuncInfo) => {
+    if (info.Kind != msg.StatementKind.Call)
+      return msg.StatementKind[info.Kind].toLowerCase();
+    let callee = functions.find(f => f.ID == info.CalleeID);
+    return log.Blockers.call.replace('{0}', callee ? callee.Name : '?');
+  };
+  if (loop.Traits.UnsafeCFG === 'Yes')
+    for (let info of unsafe)
+      blockers.push({
+        description: log.Blockers.unsafeCFG.replace('{0}', statement(info)),
+        locations: info.StartLocation || []
+      });
+  if (loop.Traits.InOut === 'Yes')
+    for (let info of inout)
+      blockers.push({
+        description: log.Blockers.inout.replace('{0}', statement(info)),
+        locations: info.StartLocation || []
+      });
+  return blockers;
+}
+
+interface Target {
+  FuncID: number;
+  LoopID: number;
+}
+
+interface Data {
+  Target: Target;
+
+  /**
+   * Function and loop are undefined if the target loop is not found,
+   * for example if sources have been changed.
+   */
+  Function?: msg.Function;
+  Loop?: msg.Loop;
+  Blockers: Blocker[];
+}
+
+export class BlockersProviderState extends
+    ProjectWebviewProviderState<BlockersProvider> {
+  /**
+   * Loop to explain.
+   */
+  target: Target|undefined;
+
+  get active(): boolean { return super.active; }
+
+  set active(is: boolean) {
+    if (!is)
+      this._data = undefined;
+    super.active = is;
+  }
+
+  onResponse(_response: any, project: Project): Thenable<Data|undefined> {
+    if (this.target === undefined)
+      return Promise.resolve(undefined);
+    let data = this._data as Data;
+    if (data !== undefined && data.Target.FuncID == this.target.FuncID &&
+        data.Target.LoopID == this.target.LoopID)
+      return Promise.resolve(data);
+    return this._explain(this.target, project);
+  }
+
+  /**
+   * Collect reasons which prevent parallel execution of a target loop.
+   *
+   * Missed information is requested from the server. Providers are not
+   * notified about these requests.
+   */
+  private async _explain(target: Target, project: Project): Promise<Data> {
+    let loopTreeState = project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    let functions = loopTreeState.functions();
+    if (functions === undefined)
+      functions = (await project.send<msg.FunctionList>(
+        new msg.FunctionList, { notify: false })).Functions;
+    let func = functions.find(f => f.ID == target.FuncID);
+    let loop = func !== undefined
+      ? (await loopTreeState.loops(project, func)).find(
+          l => l.ID == target.LoopID)
+      : undefined;
+    if (loop === undefined) {
+      this._data = { Target: target, Blockers: [] };
+      return this._data;
+    }
+    let tree: msg.AliasTree;
+    if (loop.Traits.IsAnalyzed === 'Yes') {
+      let aliasTreeState = project.providerState(
+        AliasTreeProvider.scheme) as AliasTreeProviderState;
+      tree = await aliasTreeState.aliasTree(project, func.ID, loop.ID);
+    }
+    let callees = async (attr: msg.StatementAttr) => {
+      let request = new msg.CalleeFuncList;
+      request.FuncID = func.ID;
+      request.LoopID = loop.ID;
+      request.Attr = [attr];
+      return (await project.send<msg.CalleeFuncList>(
+        request, { notify: false })).Functions;
+    };
+    let unsafe = loop.Traits.UnsafeCFG === 'Yes'
+      ? await callees(msg.StatementAttr.UnsafeCFG) : [];
+    let inout = loop.Traits.InOut === 'Yes'
+      ? await callees(msg.StatementAttr.InOut) : [];
+    let data: Data = {
+      Target: target,
+      Function: func,
+      Loop: loop,
+      Blockers: loopBlockers(loop, tree, unsafe, inout, functions)
+    };
+    this._data = data;
+    return data;
+  }
+}
+
+export class BlockersProvider extends ProjectWebviewProvider {
+  static scheme = "tsar-blockers";
+
+  public scheme(): string { return BlockersProvider.scheme; }
+
+  public state(): BlockersProviderState {
+    return new BlockersProviderState(this);
+  }
+
+  protected _title(): string { return log.Blockers.title; }
+
+  protected _needToHandle(_response: any): boolean { return false; }
+
+  protected _provideContent(project: Project, data: Data,
+      asWebviewUri: UpdateUriFunc): string {
+    let target = data.Loop === undefined ? log.Blockers.unknownLoop
+      : log.Blockers.loop
+        .replace('{0}', gotoExpansionLocLink(project, data.Loop.StartLocation))
+        .replace('{1}', `<var>${data.Function.Name}</var>`);
+    let body = '';
+    if (data.Loop === undefined) {
+      body = `<p>${log.Blockers.notFound}</p>`;
+    } else if (data.Loop.Traits.Parallel === 'Yes') {
+      body = `<p>${log.Blockers.parallel}</p>`;
+    } else if (data.Blockers.length == 0) {
+      body = `<p>${log.Blockers.unknown}</p>`;
+    } else {
+      body = '<ul class="list-group">';
+      for (let blocker of data.Blockers)
+        body += `
+          <li class="list-group-item">
+            ${blocker.description}
+            <div class="small">
+              ${blocker.locations.map(
+                loc => gotoExpansionLocLink(project, loc)).join(', ')}
+            </div>
+          </li>`;
+      body += '</ul>';
+    }
+    return `
+      <!doctype html>
+      <html lang="en">
+        ${headHtml(asWebviewUri)}
+        <body class="bg-light">
+          <div class="container-fluid pt-4">
+            <h3>${this._title().replace('{0}', target)}</h3>
+            ${body}
+          </div>
+        </body>
+      </html>`;
+  }
+}
@@ -11,13 +11,14 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { UpdateUriFunc, headHtml } from './functions';
+import { UpdateUriFunc, headHtml, commandLink } from './functions';
 import {
   gotoExpansionLocLink,
   resolveLocation,
   FileListProviderState,
   FileListProvider
 } from './fileList';
+import { exportScript } from './graphExport';
 import * as log from './log';
 import * as msg from './messages';
 import {Project} from './project';
@@ -30,7 +31,7 @@ interface Target {
   Attr: msg.StatementAttr [];
 }
 
-interface Data {
+export interface CallGraphData {
   Target: Target,
   Complete: boolean,
   Functions: Map<number, msg.Function>,
@@ -38,6 +39,14 @@ interface Data {
 }
 
 export class CalleeFuncProviderState extends ProjectWebviewProviderState<CalleeFuncProvider> {
+  /**
+   * Return call graph which is currently shown if it has been built.
+   */
+  graph(): CallGraphData|undefined {
+    return this.data !== undefined && this.data.Complete
+      ? this.data as CallGraphData : undefined;
+  }
+
   actual(request: any): boolean {
     if (request instanceof msg.FunctionList)
       return this.data !== undefined &&
@@ -49,7 +58,7 @@ export class CalleeFuncProviderState extends ProjectWebviewProviderState<CalleeF
 
   set active(is: boolean) {
     if (!is && this._data !== undefined) {
-      let data = this._data as Data;
+      let data = this._data as CallGraphData;
       data.Target = undefined;
       data.CallGraph = undefined;
       data.Complete = false;
@@ -57,95 +66,91 @@ export class CalleeFuncProviderState extends ProjectWebviewProviderState<CalleeF
     super.active = is;
   }
 
-  onResponse(response: any, project: Project): Thenable<Data|undefined> {
-    return new Promise(resolve => {
-      if (response === undefined) {
-        if (this.data !== undefined && this.data.Complete)
-          return resolve(this.data);
-        return resolve(undefined);
-      }
-      // Remember list of functions for further usage.
-      if (response instanceof msg.FunctionList) {
-        // We receive a new list of functions, so dropout a constructed graph
-        // because it may be out of data.
-        this.active = false;
-        let functions = new Map<number, msg.Function>();
-        for (let f of response.Functions)
-          functions.set(f.ID, f);
-        let data:Data = {
-          Target: undefined,
-          Functions: functions,
-          Complete: false,
-          CallGraph: undefined};
-        this._data = data;
-        return resolve(undefined);
+  onResponse(response: any, project: Project): Thenable<CallGraphData|undefined> {
+    if (response === undefined)
+      return Promise.resolve(this.data !== undefined && this.data.Complete
+        ? this.data : undefined);
+    // Remember list of functions for further usage.
+    if (response instanceof msg.FunctionList) {
+      // We receive a new list of functions, so dropout a constructed graph
+      // because it may be out of data.
+      this.active = false;
+      let data:CallGraphData = {
+        Target: undefined,
+        Functions: CalleeFuncProviderState._functions(response),
+        Complete: false,
+        CallGraph: undefined};
+      this._data = data;
+      return Promise.resolve(undefined);
+    }
+    if (response instanceof msg.CalleeFuncList)
+      return this._buildCallGraph(response, project);
+    return Promise.resolve(undefined);
+  }
+
+  private static _functions(list: msg.FunctionList): Map<number, msg.Function> {
+    let functions = new Map<number, msg.Function>();
+    for (let f of list.Functions)
+      functions.set(f.ID, f);
+    return functions;
+  }
+
+  /**
+   * Build call graph for a target which is specified in a response.
+   *
+   * Missed information about functions, loops and callees is requested from
+   * the server. Providers are not notified about these requests.
+   */
+  private async _buildCallGraph(response: msg.CalleeFuncList,
+      project: Project): Promise<CallGraphData> {
+    let data:CallGraphData = {
+      Target: {
+        FuncID: response.FuncID,
+        LoopID: response.LoopID,
+        Attr: response.Attr
+      },
+      Complete: false,
+      Functions: this._data !== undefined ?
+        (this._data as CallGraphData).Functions : undefined,
+      CallGraph: new Map<msg.Function|msg.Loop, msg.CalleeFuncInfo[]>()
+    };
+    this._data = data;
+    if (data.Functions === undefined)
+      data.Functions = CalleeFuncProviderState._functions(
+        await project.send<msg.FunctionList>(
+          new msg.FunctionList, { notify: false }));
+    let targetObj:msg.Function|msg.Loop = data.Functions.get(response.FuncID);
+    if (response.LoopID) {
+      let f = targetObj as msg.Function;
+      if (f.Loops === undefined || f.Loops.length == 0) {
+        let request = new msg.LoopTree;
+        request.FunctionID = f.ID;
+        f.Loops = (await project.send<msg.LoopTree>(
+          request, { notify: false })).Loops;
       }
-      if (response instanceof msg.CalleeFuncList) {
-        // We should build call graph however there is no information about
-        // functions. So, let us send corresponding requests to the server.
-        if (this._data === undefined ||
-            (this._data as Data).Functions === undefined) {
-          let data:Data = {
-            Target: {
-              FuncID: response.FuncID,
-              LoopID: response.LoopID,
-              Attr: response.Attr
-            },
-            Complete: false,
-            Functions: undefined,
-            CallGraph: new Map<msg.Function|msg.Loop, msg.CalleeFuncInfo[]>()
-          };
-          this._data = data;
-          vscode.commands.executeCommand('tsar.function.list', project.uri);
-          vscode.commands.executeCommand('tsar.loop.tree',
-            project.uri.with({query: JSON.stringify({ID: data.Target.FuncID})}));
-          // It is also necessary to repeat current request to remember list of callees.
-          let request = new msg.CalleeFuncList();
-          Object.assign(request, data.Target);
-          project.send(request);
-          return resolve(undefined);
-        }
-        // List of functions is available, so try to build call graph.
-        let info = this._data as Data;
-        let targetObj:msg.Function|msg.Loop = info.Functions.get(response.FuncID);
-        if (info.Target === undefined) {
-          info.Target = {
-            FuncID: response.FuncID,
-            LoopID: response.LoopID,
-            Attr: response.Attr
-          }
-          info.CallGraph = new Map<msg.Function|msg.Loop, msg.CalleeFuncInfo[]>();
-          if (response.LoopID)
-            targetObj = targetObj.Loops.find(l=> { return l.ID == response.LoopID});
-          if (targetObj === undefined) {
-            // We should build a call graph for a loop. However, there is no description
-            // of a required loop. So, let us send a corresponding request to the server.
-            vscode.commands.executeCommand('tsar.loop.tree',
-              project.uri.with({query: JSON.stringify({ID: this._data.target.FuncID})}));
-            // It is also necessary to repeat current request to remember list of callees.
-            let request = new msg.CalleeFuncList();
-            Object.assign(request, info.Target);
-            return resolve(undefined);
-          }
-        }
-        if (!info.CallGraph.has(targetObj))
-          info.CallGraph.set(targetObj, response.Functions);
-        for (let callees of info.CallGraph.values())
-          for (let callee of callees)
-            if (callee.Kind == msg.StatementKind.Call && callee.CalleeID &&
-                !info.CallGraph.has(info.Functions.get(callee.CalleeID))) {
-              let request = new msg.CalleeFuncList;
-              request.FuncID = callee.CalleeID;
-              request.Attr = info.Target.Attr;
-              request.LoopID = 0;
-              project.send(request);
-              return resolve(undefined);
-            }
-        info.Complete = true;
-        return resolve(this._data);
+      targetObj = f.Loops.find(l => l.ID == response.LoopID);
+    }
+    data.CallGraph.set(targetObj, response.Functions);
+    let queue = [response.Functions];
+    while (queue.length > 0) {
+      for (let callee of queue.shift()) {
+        if (callee.Kind != msg.StatementKind.Call || !callee.CalleeID)
+          continue;
+        let f = data.Functions.get(callee.CalleeID);
+        if (data.CallGraph.has(f))
+          continue;
+        let request = new msg.CalleeFuncList;
+        request.FuncID = callee.CalleeID;
+        request.Attr = data.Target.Attr;
+        request.LoopID = 0;
+        let callees = await project.send<msg.CalleeFuncList>(
+          request, { notify: false });
+        data.CallGraph.set(f, callees.Functions);
+        queue.push(callees.Functions);
       }
-      resolve(undefined);
-    });
+    }
+    data.Complete = true;
+    return data;
   }
 }
 
@@ -169,7 +174,8 @@ export class CalleeFuncProvider extends ProjectWebviewProvider {
       response instanceof msg.FunctionList;
   }
 
-  protected _provideContent(project: Project, info: Data, asWebvwieUri: UpdateUriFunc): string {
+  protected _provideContent(project: Project, info: CallGraphData,
+      asWebvwieUri: UpdateUriFunc): string {
     let state = project.providerState(
       CalleeFuncProvider.scheme) as CalleeFuncProviderState;
     let filesState = project.providerState(FileListProvider.scheme) as
@@ -299,7 +305,16 @@ export class CalleeFuncProvider extends ProjectWebviewProvider {
         ${headHtml(asWebvwieUri, {bootstrap: true, visNetwork: true})}
         <body class="bg-light">
           <div class="container-fluid pt-4" style="height:100%">
-            <h3>${this._title().replace('{0}', gotoTarget)}</h3>
+            <h3>
+              ${this._title().replace('{0}', gotoTarget)}
+              ${commandLink({
+                command: 'tsar.callee.export',
+                project,
+                title: log.Export.title,
+                body: '&#8615;',
+                query: {}
+              })}
+            </h3>
             <h5>${subtitle}</h5>
             <p>A total number of callees is ${numberOfCallees}.</p>
             <p>A total number of calls from user-defined functions is
@@ -331,6 +346,7 @@ export class CalleeFuncProvider extends ProjectWebviewProvider {
             };
             var network = new vis.Network(container, data, options);
             const vscode = acquireVsCodeApi();
+            ${exportScript('callGraph')}
             network.on('doubleClick', selected => {
               if (!selected.nodes || selected.nodes.length == 0)
                 return;
@@ -0,0 +1,216 @@
+//===--- callers.ts ----------- Function Callers ------------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements provider to show all places a function is called from.
+// The reverse call graph is built from callees of all user-defined functions.
+// For each call site loops which contain it are shown, so it is possible to
+// check whether the function is called inside a parallel loop.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { gotoExpansionLocLink } from './fileList';
+import { DisposableLikeList, headHtml, UpdateUriFunc } from './functions';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { collectCalls } from './programCallGraph';
+import { Project, ProjectEngine } from './project';
+import { ProjectWebviewProviderState,
+  ProjectWebviewProvider } from './webviewProvider';
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let showCallers = vscode.commands.registerCommand('tsar.callers',
+    (uri: vscode.Uri) => {
+      let project = engine.project(uri);
+      let state = project.providerState(
+        CallersProvider.scheme) as CallersProviderState;
+      state.target = JSON.parse(uri.query).FuncID;
+      project.focus = state;
+      if (state.active)
+        state.provider.update(project);
+      else
+        state.active = true;
+    });
+  subscriptions.push(showCallers);
+}
+
+/**
+ * Statement which calls a function.
+ */
+export interface CallSite {
+  Caller: msg.Function;
+  Location: msg.Location;
+
+  /**
+   * Loops which contain the call, the outermost loop is the first.
+   */
+  Loops: msg.Loop[];
+}
+
+/**
+ * Return `true` if the first location precedes the second one.
+ */
+function isBefore(first: msg.Location, second: msg.Location): boolean {
+  return first.Line < second.Line ||
+    first.Line == second.Line && first.Column <= second.Column;
+}
+
+/**
+ * Return loops which contain a specified location, the outermost loop is
+ * the first.
+ */
+export function enclosingLoops(loops: msg.Loop[], loc: msg.Location):
+    msg.Loop[] {
+  return loops.filter(l => isBefore(l.StartLocation, loc) &&
+    isBefore(loc, l.EndLocation)).sort((l1, l2) => l1.Level - l2.Level);
+}
+
+/**
+ * Return all statements which call a specified function.
+ *
+ * @param calls Callees of user-defined functions.
+ * @param loops Return loops of a function.
+ */
+export function callSites(funcID: number, functions: msg.Function[],
+    calls: Map<number, msg.CalleeFuncInfo[]>,
+    loops: (f: msg.Function) => msg.Loop[]): CallSite[] {
+  let sites: CallSite[] = [];
+  for (let caller of functions) {
+    for (let callee of calls.get(caller.ID) || []) {
+      if (callee.Kind != msg.StatementKind.Call || callee.CalleeID != funcID)
+        continue;
+      for (let loc of callee.StartLocation || [])
+        sites.push({
+          Caller: caller,
+          Location: loc,
+          Loops: enclosingLoops(loops(caller), loc)
+        });
+    }
+  }
+  return sites.sort((s1, s2) =>
+    s1.Caller.Name.localeCompare(s2.Caller.Name) ||
+    s1.Location.Line - s2.Location.Line ||
+    s1.Location.Column - s2.Location.Column);
+}
+
+interface Data {
+  Target: number;
+  Function: msg.Function;
+  CallSites: CallSite[];
+}
+
+export class CallersProviderState extends
+    ProjectWebviewProviderState<CallersProvider> {
+  /**
+   * Identifier of a function to find callers of.
+   */
+  target: number|undefined;
+
+  get active(): boolean { return super.active; }
+
+  set active(is: boolean) {
+    if (!is)
+      this._data = undefined;
+    super.active = is;
+  }
+
+  onResponse(_response: any, project: Project): Thenable<Data|undefined> {
+    if (this.target === undefined)
+      return Promise.resolve(undefined);
+    let data = this._data as Data;
+    if (data !== undefined && data.Target == this.target)
+      return Promise.resolve(data);
+    return this._find(this.target, project);
+  }
+
+  /**
+   * Find statements which call a target function.
+   *
+   * Missed information is requested from the server. Providers are not
+   * notified about these requests.
+   */
+  private async _find(target: number, project: Project): Promise<Data> {
+    let program = await collectCalls(project);
+    let loopTreeState = project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    let loops = new Map<msg.Function, msg.Loop[]>();
+    for (let f of program.Functions)
+      if ((program.Calls.get(f.ID) || []).some(c => c.CalleeID == target))
+        loops.set(f, await loopTreeState.loops(project, f));
+    let data: Data = {
+      Target: target,
+      Function: program.Functions.find(f => f.ID == target),
+      CallSites: callSites(target, program.Functions, program.Calls,
+        f => loops.get(f) || [])
+    };
+    this._data = data;
+    return data;
+  }
+}
+
+export class CallersProvider extends ProjectWebviewProvider {
+  static scheme = "tsar-callers";
+
+  public scheme(): string { return CallersProvider.scheme; }
+
+  public state(): CallersProviderState {
+    return new CallersProviderState(this);
+  }
+
+  protected _title(): string { return log.Callers.title; }
+
+  protected _needToHandle(_response: any): boolean { return false; }
+
+  protected _provideContent(project: Project, data: Data,
+      asWebviewUri: UpdateUriFunc): string {
+    let target = `<var>${data.Function.Name}</var>`;
+    let callers = new Set(data.CallSites.map(s => s.Caller));
+    let body = `<p>${data.CallSites.length == 0 ? log.Callers.none
+      : log.Callers.summary.replace('{0}', `${data.CallSites.length}`)
+          .replace('{1}', `${callers.size}`)}</p>`;
+    if (data.CallSites.length > 0) {
+      body += `
+        <div class="row font-weight-bolder border-bottom py-3">
+          <div class="col-3">${log.Callers.callerName}</div>
+          <div class="col-3">${log.Callers.location}</div>
+          <div class="col-4">${log.Callers.loops}</div>
+          <div class="col-2">${log.Callers.parallel}</div>
+        </div>`;
+      for (let site of data.CallSites) {
+        let isParallel = site.Loops.some(l => l.Traits.Parallel === 'Yes');
+        body += `
+        <div class="row py-2 border-bottom table-row
+                    ${isParallel ? 'table-row-success' : ''}">
+          <div class="col-3"><var>${site.Caller.Name}</var></div>
+          <div class="col-3">${gotoExpansionLocLink(project, site.Location)}</div>
+          <div class="col-4">
+            ${site.Loops.map(l => `
+              <var>${l.Type.toLowerCase()}</var> at
+              ${gotoExpansionLocLink(project, l.StartLocation)}
+              ${l.Traits.Parallel === 'Yes' ? '&#10003;' : ''}`).join('<br>')}
+          </div>
+          <div class="col-2">
+            ${site.Loops.length == 0 ? log.Callers.outside
+              : isParallel ? log.Callers.inParallel : log.Callers.inSerial}
+          </div>
+        </div>`;
+      }
+    }
+    return `
+      <!doctype html>
+      <html lang="en">
+        ${headHtml(asWebviewUri)}
+        <body class="bg-light">
+          <div class="container-fluid pt-4">
+            <h3>${this._title().replace('{0}', target)}</h3>
+            ${body}
+          </div>
+        </body>
+      </html>`;
+  }
+}
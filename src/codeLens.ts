@@ -0,0 +1,159 @@
+//===--- codeLens.ts ---------- Code Lens Provider ---------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements provider which shows actions above functions and loops
+// known to the server: parallelism of a region, alias tree and call graph.
+// Lenses are available for loops which loop trees have been already received.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { FileListProvider, FileListProviderState,
+  resolveLocation } from './fileList';
+import { isFunction } from './functions';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { Project, ProjectContentProvider,
+  ProjectContentProviderState } from './project';
+
+class CodeLensProviderState implements ProjectContentProviderState {
+  #provider: RegionCodeLensProvider;
+  #onDidDisposeContent = new vscode.EventEmitter<void>();
+  #onDidChangeActiveState = new vscode.EventEmitter<boolean>();
+
+  readonly onDidDisposeContent = this.#onDidDisposeContent.event;
+  readonly onDidChangeActiveState = this.#onDidChangeActiveState.event;
+  readonly disposables: vscode.Disposable[] = [];
+  readonly active = true;
+
+  constructor(provider: RegionCodeLensProvider) { this.#provider = provider; }
+
+  get provider(): RegionCodeLensProvider { return this.#provider; }
+
+  actual(): boolean { return true; }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables.length = 0;
+  }
+}
+
+/**
+ * Provide actions above functions and loops for active projects.
+ */
+export class RegionCodeLensProvider
+  implements vscode.CodeLensProvider, ProjectContentProvider {
+  #disposables: vscode.Disposable[] = [];
+  #projects = new Set<Project>();
+  #onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  #onDidAriseInternalError = new vscode.EventEmitter<Error>();
+
+  static scheme = "tsar-codelens";
+
+  readonly onDidChangeCodeLenses = this.#onDidChangeCodeLenses.event;
+  readonly onDidAriseInternalError = this.#onDidAriseInternalError.event;
+
+  constructor() {
+    this.#disposables.push(vscode.languages.registerCodeLensProvider(
+      [{ scheme: 'file', language: 'c' }, { scheme: 'file', language: 'cpp' }],
+      this));
+  }
+
+  state(): CodeLensProviderState {
+    return new CodeLensProviderState(this);
+  }
+
+  dispose() {
+    this.#disposables.forEach(d => d.dispose());
+    this.#disposables.length = 0;
+  }
+
+  clear(project: Project) {
+    if (this.#projects.delete(project))
+      this.#onDidChangeCodeLenses.fire();
+  }
+
+  update(project: Project) {
+    if (!this.#projects.has(project)) {
+      this.#projects.add(project);
+      this.#onDidChangeCodeLenses.fire();
+    } else if (project.response instanceof msg.FileList ||
+               project.response instanceof msg.FunctionList ||
+               project.response instanceof msg.LoopTree) {
+      this.#onDidChangeCodeLenses.fire();
+    }
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    let lenses: vscode.CodeLens[] = [];
+    for (let project of this.#projects) {
+      let fileState = project.providerState(
+        FileListProvider.scheme) as FileListProviderState;
+      let loopTreeState = project.providerState(
+        LoopTreeProvider.scheme) as LoopTreeProviderState;
+      if (!fileState || !fileState.actual(new msg.FileList) ||
+          loopTreeState.functions() === undefined)
+        continue;
+      for (let func of loopTreeState.functions()) {
+        if (!func.User || resolveLocation(project, func.StartLocation).Path !==
+              document.uri.fsPath)
+          continue;
+        lenses.push(...this._regionLenses(project, func, func));
+        if (func.Loops !== undefined)
+          for (let loop of func.Loops)
+            lenses.push(...this._regionLenses(project, func, loop));
+      }
+    }
+    return lenses;
+  }
+
+  /**
+   * Return lenses for a specified function or loop.
+   */
+  private _regionLenses(project: Project, func: msg.Function,
+      region: msg.Function|msg.Loop): vscode.CodeLens[] {
+    let line = Math.max(region.StartLocation.Line - 1, 0);
+    let range = new vscode.Range(line, 0, line, 0);
+    let lens = (title: string, tooltip?: string, command?: string,
+        query?: any) => new vscode.CodeLens(range, {
+      title: title,
+      tooltip: tooltip,
+      command: command || '',
+      arguments: command ? [project.uri.with({ query: JSON.stringify(query) })]
+                         : undefined
+    });
+    let loopID = isFunction(region) ? 0 : region.ID;
+    let lenses = [lens(log.CodeLens.parallel.replace('{0}',
+      region.Traits.Parallel === 'Yes' ? '✓' : '✗'))];
+    if (isFunction(region)) {
+      if (region.Traits.Loops === 'Yes' &&
+          (region.Loops === undefined || region.Loops.length == 0))
+        lenses.push(lens(log.CodeLens.loopTree,
+          log.FunctionList.loopTree.replace('{0}', log.FunctionList.build),
+          'tsar.loop.tree', { ID: region.ID }));
+    } else {
+      lenses.push(lens(log.CodeLens.aliasTree, log.AliasTree.build,
+        'tsar.loop.alias', { FuncID: func.ID, LoopID: loopID }));
+    }
+    // Call graph is not available if a region has unknown number of exits.
+    if (region.Exit === null)
+      return lenses;
+    lenses.push(lens(log.CodeLens.callGraph, log.CallGraph.from,
+      'tsar.callee.func', { FuncID: func.ID, LoopID: loopID, Attr: [] }));
+    if (region.Traits.InOut === 'Yes')
+      lenses.push(lens(log.CodeLens.io, log.CallGraph.io, 'tsar.callee.func',
+        { FuncID: func.ID, LoopID: loopID, Attr: [msg.StatementAttr.InOut] }));
+    if (region.Traits.UnsafeCFG === 'Yes')
+      lenses.push(lens(log.CodeLens.unsafeCFG, log.CallGraph.unsafeCFG,
+        'tsar.callee.func', {
+          FuncID: func.ID,
+          LoopID: loopID,
+          Attr: [msg.StatementAttr.UnsafeCFG]
+        }));
+    return lenses;
+  }
+}
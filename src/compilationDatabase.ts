@@ -0,0 +1,226 @@
+//===--- compilationDatabase.ts --- Compilation Database ---- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements parser of JSON compilation databases
+// (compile_commands.json) which are used to describe multi-file projects.
+// Format of a database is described in Clang documentation, see
+// https://clang.llvm.org/docs/JSONCompilationDatabase.html.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as log from './log';
+import * as msg from './messages';
+
+/**
+ * Raw entry of a compilation database.
+ */
+interface CompileCommandJSON {
+  directory: string;
+  file: string;
+  arguments?: string[];
+  command?: string;
+  output?: string;
+}
+
+/**
+ * Return true if a specified URI points to a compilation database.
+ */
+export function isCompilationDatabase(uri: vscode.Uri): boolean {
+  return path.basename(uri.fsPath) === log.Project.compilationDatabase;
+}
+
+/**
+ * Look for a compilation database in the roots of workspace folders.
+ *
+ * Databases are usually generated by build systems, so the 'build'
+ * subdirectory is also checked.
+ */
+export function findCompilationDatabase(): vscode.Uri|undefined {
+  if (!vscode.workspace.workspaceFolders)
+    return undefined;
+  for (let folder of vscode.workspace.workspaceFolders)
+    for (let dir of ['', 'build']) {
+      let db = path.join(folder.uri.fsPath, dir, log.Project.compilationDatabase);
+      if (fs.existsSync(db))
+        return vscode.Uri.file(db);
+    }
+  return undefined;
+}
+
+/**
+ * Split a command line into arguments according to the shell quoting rules.
+ */
+function splitCommand(command: string): string[] {
+  let args: string[] = [];
+  let current = '';
+  let hasCurrent = false;
+  let quote = '';
+  for (let idx = 0; idx < command.length; ++idx) {
+    let ch = command[idx];
+    if (ch === '\\' && quote !== '\'' && idx + 1 < command.length) {
+      current += command[++idx];
+      hasCurrent = true;
+    } else if (quote) {
+      if (ch === quote)
+        quote = '';
+      else
+        current += ch;
+    } else if (ch === '"' || ch === '\'') {
+      quote = ch;
+      hasCurrent = true;
+    } else if (/\s/.test(ch)) {
+      if (hasCurrent)
+        args.push(current);
+      current = '';
+      hasCurrent = false;
+    } else {
+      current += ch;
+      hasCurrent = true;
+    }
+  }
+  if (hasCurrent)
+    args.push(current);
+  return args;
+}
+
+/**
+ * Options which values are paths, a value follows an option in the same
+ * argument or in the next one.
+ */
+const pathOptions = ['-I', '-iquote', '-isystem', '-idirafter'];
+
+/**
+ * Options which values are paths, a value is always in the next argument,
+ * so '-include' is not confused with '-include-pch'.
+ */
+const separatePathOptions = ['-include'];
+
+/**
+ * Options which values are macro names or definitions.
+ */
+const macroOptions = ['-D', '-U'];
+
+/**
+ * Extract flags which should be forwarded to the analysis server from
+ * a compiler invocation.
+ *
+ * The compiler name, the source file, '-c' and output specification are
+ * dropped. Relative include paths are resolved against the working directory
+ * of compilation because the server may run in another directory. A value of
+ * an option which affects preprocessing is joined with the option unless the
+ * option requires a separate value.
+ */
+function extractFlags(argv: string[], directory: string, file: string):
+    string[] {
+  let flags: string[] = [];
+  for (let idx = 1; idx < argv.length; ++idx) {
+    let arg = argv[idx];
+    if (arg === '-c')
+      continue;
+    if (arg === '-o') {
+      ++idx;
+      continue;
+    }
+    if (arg.startsWith('-o') && arg.length > 2)
+      continue;
+    if (path.resolve(directory, arg) === file)
+      continue;
+    if (separatePathOptions.indexOf(arg) >= 0) {
+      if (idx + 1 < argv.length)
+        flags.push(arg, path.resolve(directory, argv[++idx]));
+      continue;
+    }
+    let option = pathOptions.find(o => arg.startsWith(o));
+    if (option !== undefined) {
+      let value = arg.substring(option.length);
+      if (!value && idx + 1 < argv.length)
+        value = argv[++idx];
+      flags.push(option + path.resolve(directory, value));
+      continue;
+    }
+    if (macroOptions.indexOf(arg) >= 0) {
+      if (idx + 1 < argv.length)
+        flags.push(arg + argv[++idx]);
+      continue;
+    }
+    flags.push(arg);
+  }
+  return flags;
+}
+
+/**
+ * Return flags which affect preprocessing of sources (include paths, macro
+ * definitions and forced includes), each flag is mentioned once.
+ *
+ * The server accepts a single command line for all sources, so these flags
+ * of each source must be passed in the command line.
+ */
+export function preprocessorFlags(commands: msg.CompileCommand[]):
+    string[] {
+  let flags: string[] = [];
+  let added = new Set<string>();
+  let add = (...flag: string[]) => {
+    if (!added.has(flag.join(' '))) {
+      added.add(flag.join(' '));
+      flags.push(...flag);
+    }
+  };
+  for (let command of commands)
+    for (let idx = 0; idx < command.Arguments.length; ++idx) {
+      let arg = command.Arguments[idx];
+      if (separatePathOptions.indexOf(arg) >= 0 &&
+          idx + 1 < command.Arguments.length)
+        add(arg, command.Arguments[++idx]);
+      else if (pathOptions.concat(macroOptions).some(o => arg.startsWith(o)))
+        add(arg);
+    }
+  return flags;
+}
+
+/**
+ * Parse a specified compilation database and return compilation commands
+ * for C/C++ sources, the first command is used if there are multiple commands
+ * for the same file.
+ *
+ * In case of errors this function throws exception.
+ */
+export function parseCompilationDatabase(dbPath: string): msg.CompileCommand[] {
+  let entries: CompileCommandJSON[];
+  try {
+    entries = JSON.parse(fs.readFileSync(dbPath, 'utf8'));
+    if (!Array.isArray(entries))
+      throw new Error('array of compile commands expected');
+  }
+  catch (err) {
+    throw new Error(log.Error.compilationDatabase
+      .replace('{0}', dbPath).replace('{1}', err.message));
+  }
+  let commands: msg.CompileCommand[] = [];
+  let files = new Set<string>();
+  for (let entry of entries) {
+    if (typeof entry.directory !== 'string' || typeof entry.file !== 'string')
+      throw new Error(log.Error.compilationDatabase.replace('{0}', dbPath)
+        .replace('{1}', '"directory" and "file" properties are required'));
+    let directory = path.resolve(path.dirname(dbPath), entry.directory);
+    let file = path.resolve(directory, entry.file);
+    if (files.has(file) || !/\.(c|cc|cpp|cxx|c\+\+|C)$/.test(file))
+      continue;
+    files.add(file);
+    let argv = entry.arguments !== undefined ? entry.arguments :
+      entry.command !== undefined ? splitCommand(entry.command) : [];
+    commands.push({
+      Directory: directory,
+      File: file,
+      Arguments: extractFlags(argv, directory, file)
+    });
+  }
+  if (commands.length == 0)
+    throw new Error(log.Error.emptyDatabase.replace('{0}', dbPath));
+  return commands;
+}
@@ -0,0 +1,250 @@
+//===--- diagnostics.ts --------- Problems Provider --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements provider to publish errors and warnings from
+// diagnostics which are received from the server to the Problems panel.
+// Diagnostics are expected in the clang-style format:
+//   <file>:<line>:<column>: <severity>: <message>
+// Entries without location are attached to the project itself.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DisposableLikeList } from './functions';
+import * as log from './log';
+import * as msg from './messages';
+import {
+  Project,
+  ProjectContentProvider,
+  ProjectContentProviderState,
+  ProjectEngine
+} from './project';
+
+const diagnosticRegExp =
+  /^(.+?):(\d+):(\d+):\s+(fatal error|error|warning|note|remark):\s+(.*)$/;
+const noLocationRegExp = /^(?:.*?:\s+)?(fatal error|error|warning):\s+(.*)$/;
+const caretRegExp = /^[ \t]*\^~*[ \t~]*$/;
+
+function toSeverity(kind: string): vscode.DiagnosticSeverity {
+  switch (kind) {
+    case 'fatal error':
+    case 'error': return vscode.DiagnosticSeverity.Error;
+    case 'warning': return vscode.DiagnosticSeverity.Warning;
+  }
+  return vscode.DiagnosticSeverity.Information;
+}
+
+/**
+ * Parse clang-style diagnostics and return them grouped by files.
+ *
+ * Notes are attached to the previous diagnostic as a related information.
+ * If diagnostic is followed by a source line and a caret line (^~~~),
+ * the range is extended according to the caret line.
+ *
+ * @param text Text to parse.
+ * @param base Directory to resolve relative paths against.
+ * @param fallback File to attach diagnostics which do not contain location.
+ */
+export function parseDiagnostics(text: string, base: string,
+    fallback: vscode.Uri): Map<string, vscode.Diagnostic[]> {
+  let diags = new Map<string, vscode.Diagnostic[]>();
+  let add = (uri: vscode.Uri, diag: vscode.Diagnostic) => {
+    let key = uri.toString();
+    let list = diags.get(key);
+    if (list === undefined)
+      diags.set(key, list = []);
+    // Diagnostics may be duplicated in errors and in terminal output.
+    if (!list.some(d => d.message === diag.message &&
+                        d.severity === diag.severity &&
+                        d.range.isEqual(diag.range)))
+      list.push(diag);
+  };
+  let lines = text.split(/\r?\n/);
+  let last: vscode.Diagnostic;
+  for (let idx = 0; idx < lines.length; ++idx) {
+    let match = diagnosticRegExp.exec(lines[idx]);
+    if (match) {
+      let uri = vscode.Uri.file(path.resolve(base, match[1]));
+      let line = Math.max(Number(match[2]) - 1, 0);
+      let column = Math.max(Number(match[3]) - 1, 0);
+      let length = 1;
+      if (idx + 2 < lines.length && caretRegExp.test(lines[idx + 2])) {
+        let caret = lines[idx + 2].trim();
+        length = caret.length - caret.replace(/^\^~*/, '').length;
+      }
+      let range = new vscode.Range(line, column, line, column + length);
+      if (match[4] === 'note' && last !== undefined) {
+        last.relatedInformation = (last.relatedInformation || []).concat(
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(uri, range), match[5]));
+        continue;
+      }
+      last = new vscode.Diagnostic(range, match[5], toSeverity(match[4]));
+      last.source = log.Extension.displayName;
+      add(uri, last);
+      continue;
+    }
+    match = noLocationRegExp.exec(lines[idx]);
+    if (match) {
+      last = new vscode.Diagnostic(
+        new vscode.Range(0, 0, 0, 0), match[2], toSeverity(match[1]));
+      last.source = log.Extension.displayName;
+      add(fallback, last);
+    }
+  }
+  return diags;
+}
+
+export class DiagnosticProviderState implements ProjectContentProviderState {
+  private _provider: DiagnosticProvider;
+  private _isActive = false;
+  private _collection: vscode.DiagnosticCollection;
+
+  readonly disposables: vscode.Disposable[] = [];
+
+  private _onDidDisposeContent = new vscode.EventEmitter<void>();
+  readonly onDidDisposeContent = this._onDidDisposeContent.event;
+
+  private _onDidChangeActiveState = new vscode.EventEmitter<boolean>();
+  readonly onDidChangeActiveState = this._onDidChangeActiveState.event;
+
+  constructor(provider: DiagnosticProvider) { this._provider = provider; }
+
+  get provider(): DiagnosticProvider { return this._provider; }
+
+  get active(): boolean { return this._isActive; }
+  set active(is: boolean) {
+    this._isActive = is;
+    this._onDidChangeActiveState.fire(this._isActive);
+  }
+
+  actual(_request: any): boolean { return false; }
+
+  /**
+   * Return collection of published diagnostics if it exists.
+   */
+  get collection(): vscode.DiagnosticCollection|undefined {
+    return this._collection;
+  }
+
+  /**
+   * Publish diagnostics from a specified response.
+   *
+   * Diagnostics from the previous run of the tool are removed. Diagnostic
+   * with 'Done' status finishes the current run, so it does not remove
+   * diagnostics which have been already published.
+   */
+  onResponse(response: msg.Diagnostic, project: Project) {
+    if (this._collection === undefined) {
+      this._collection = vscode.languages.createDiagnosticCollection(
+        log.Problems.collection.replace('{0}', project.prjname));
+      this.disposables.push(this._collection);
+    }
+    if (response.Status !== msg.Status.Done)
+      this._collection.clear();
+    let text = [response.Error.join('\n'), response.Warning.join('\n'),
+      response.Terminal || ''].join('\n');
+    let diags = parseDiagnostics(
+      text, path.dirname(project.uri.fsPath), project.uri);
+    diags.forEach((list, uri) => {
+      let target = vscode.Uri.parse(uri);
+      this._collection.set(target,
+        (this._collection.get(target) || []).concat(list));
+    });
+  }
+
+  dispose(): any {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables.length = 0;
+    this._collection = undefined;
+  }
+}
+
+export class DiagnosticProvider implements ProjectContentProvider {
+  static scheme = "tsar-diagnostic";
+
+  private _onDidAriseInternalError = new vscode.EventEmitter<Error>();
+  readonly onDidAriseInternalError = this._onDidAriseInternalError.event;
+
+  state(): DiagnosticProviderState { return new DiagnosticProviderState(this); }
+
+  update(project: Project) {
+    if (!(project.response instanceof msg.Diagnostic))
+      return;
+    let state = project.providerState(DiagnosticProvider.scheme) as
+      DiagnosticProviderState;
+    try {
+      state.onResponse(project.response, project);
+    }
+    catch (err) {
+      this._onDidAriseInternalError.fire(err);
+    }
+  }
+
+  clear(project: Project): any {
+    let state = project.providerState(DiagnosticProvider.scheme) as
+      DiagnosticProviderState;
+    if (state.collection)
+      state.collection.clear();
+  }
+
+  dispose() {}
+}
+
+/**
+ * This proposes to show output of a project for diagnostics which have
+ * been published by the project.
+ */
+class OutputActionProvider implements vscode.CodeActionProvider {
+  private _engine: ProjectEngine;
+
+  constructor(engine: ProjectEngine) { this._engine = engine; }
+
+  provideCodeActions(document: vscode.TextDocument, _range: vscode.Range,
+      context: vscode.CodeActionContext): vscode.CodeAction[] {
+    let diags = context.diagnostics.filter(
+      d => d.source === log.Extension.displayName);
+    if (diags.length == 0)
+      return [];
+    let actions: vscode.CodeAction[] = [];
+    for (let project of this._engine.projects()) {
+      let state = project.providerState(DiagnosticProvider.scheme) as
+        DiagnosticProviderState;
+      let published = state.collection && state.collection.get(document.uri);
+      // Diagnostics in the context are copies of published diagnostics.
+      if (!published || !diags.some(d => published.some(
+            p => p.message === d.message && p.range.isEqual(d.range))))
+        continue;
+      let action = new vscode.CodeAction(
+        log.Problems.showOutput.replace('{0}', project.prjname),
+        vscode.CodeActionKind.QuickFix);
+      action.diagnostics = diags;
+      action.command = {
+        command: 'tsar.output.show',
+        title: action.title,
+        arguments: [project.uri]
+      };
+      actions.push(action);
+    }
+    return actions;
+  }
+}
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let showOutput = vscode.commands.registerCommand('tsar.output.show',
+    (uri: vscode.Uri) => {
+      let project = engine.project(uri);
+      if (project)
+        project.output.show(true);
+    });
+  let actions = vscode.languages.registerCodeActionsProvider(
+    [{ scheme: 'file', language: 'c' }, { scheme: 'file', language: 'cpp' }],
+    new OutputActionProvider(engine),
+    { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] });
+  subscriptions.push(showOutput, actions);
+}
@@ -23,6 +23,21 @@ import * as t from './transformProvider';
 import server from './tools';
 import { FileListProvider } from './fileList';
 import { LoopTreeViewProvider } from './loopExplorer';
+import { findCompilationDatabase } from './compilationDatabase';
+import * as config from './projectConfig';
+import * as diags from './diagnostics';
+import * as ld from './loopDecorations';
+import * as hover from './hover';
+import * as lp from './loopParallel';
+import * as blockers from './blockers';
+import * as filter from './loopFilter';
+import * as graphs from './graphExport';
+import * as pcg from './programCallGraph';
+import * as callers from './callers';
+import * as nest from './loopNest';
+import { RegionCodeLensProvider } from './codeLens';
+import { showProgress } from './progress';
+import { parallelizationOptions } from './transformOptions';
 
 /**
  * Open log file (log.Extension.log), returns true on success.
@@ -74,10 +89,29 @@ export function activate(context: vscode.ExtensionContext) {
     [lt.LoopTreeProvider.scheme, new lt.LoopTreeProvider],
     [LoopTreeViewProvider.scheme, new LoopTreeViewProvider],
     [t.TransformationProvider.scheme, new t.TransformationProvider],
-    [at.AliasTreeProvider.scheme, new at.AliasTreeProvider]
+    [at.AliasTreeProvider.scheme, new at.AliasTreeProvider],
+    [diags.DiagnosticProvider.scheme, new diags.DiagnosticProvider],
+    [ld.LoopDecorationProvider.scheme, new ld.LoopDecorationProvider],
+    [RegionCodeLensProvider.scheme, new RegionCodeLensProvider],
+    [blockers.BlockersProvider.scheme, new blockers.BlockersProvider],
+    [pcg.ProgramCallGraphProvider.scheme, new pcg.ProgramCallGraphProvider],
+    [callers.CallersProvider.scheme, new callers.CallersProvider],
+    [nest.LoopNestProvider.scheme, new nest.LoopNestProvider]
   );
   let start = vscode.commands.registerCommand(
-    'tsar.start', (uri:vscode.Uri) => {
+    'tsar.start', (uri?:vscode.Uri) => {
+      // If the command is invoked from the Command Palette analyze
+      // the current file or the project described with a compilation database
+      // in the workspace root.
+      if (!uri)
+        uri = vscode.window.activeTextEditor
+          ? vscode.window.activeTextEditor.document.uri
+          : findCompilationDatabase();
+      if (!uri) {
+        vscode.window.showErrorMessage(`${log.Extension.displayName}: ` +
+          log.Error.noProject.replace('{0}', log.Project.compilationDatabase));
+        return;
+      }
       vscode.workspace.openTextDocument(uri)
         .then((success) => {
           return engine.start(success,
@@ -85,7 +119,16 @@ export function activate(context: vscode.ExtensionContext) {
          })
         .then(
           async project => {
-            await engine.runTool(project);
+            let analysis = engine.runTool(project);
+            showProgress(project, log.Progress.analysis, () => analysis);
+            try {
+              await analysis;
+            }
+            catch (err) {
+              // Analysis has been cancelled or the session is closed.
+              log.Log.logs[0].write(err.message);
+              return;
+            }
             project.providerState(FileListProvider.scheme).active = true;
             project.send(new msg.FileList);
             vscode.commands.executeCommand('tsar.function.list', project.uri);
@@ -96,12 +139,14 @@ export function activate(context: vscode.ExtensionContext) {
     {
       command: 'tsar.transform.propagate',
       title: 'Expression Propagation',
-      run: '-clang-propagate'
+      run: '-clang-propagate',
+      pragma: 'propagate'
     },
     {
       command: 'tsar.transform.inline',
       title: 'TSAR Function Inlining',
-      run: '-clang-inline'
+      run: '-clang-inline',
+      pragma: 'inline'
     },
     {
       command: 'tsar.transform.replace',
@@ -111,7 +156,8 @@ export function activate(context: vscode.ExtensionContext) {
     {
       command: 'tsar.transform.rename',
       title: 'TSAR Local Renaming',
-      run: '-clang-rename'
+      run: '-clang-rename',
+      pragma: 'rename'
     },
     {
       command: 'tsar.transform.dedecls',
@@ -121,14 +167,15 @@ export function activate(context: vscode.ExtensionContext) {
     {
       command: 'tsar.parallel.openmp',
       title: 'TSAR Parallelization with OpenMP',
-      run: '-clang-openmp-parallel'
+      run: '-clang-openmp-parallel',
+      options: parallelizationOptions
     },
-/*    {
+    {
       command: 'tsar.parallel.dvmh',
       title: 'TSAR Parallelization with DVMH',
-      run: '-clang-experimental-apc-dvmh'
+      run: '-clang-experimental-apc-dvmh',
+      options: parallelizationOptions
     },
-*/
     {
       command: 'tsar.parallel.dvmhsm',
       title: 'TSAR Shared Memory Parallelization with DVMH',
@@ -137,7 +184,8 @@ export function activate(context: vscode.ExtensionContext) {
     {
       command: 'tsar.analysis.check',
       title: 'TSAR Check User-defined Properties',
-      run: '-check'
+      run: '-check',
+      analysis: true
     }
   ],engine, context.subscriptions);
   let stop = vscode.commands.registerCommand(
@@ -185,6 +233,17 @@ export function activate(context: vscode.ExtensionContext) {
     });
   lt.registerCommands(engine, context.subscriptions);
   at.registerCommands(engine, context.subscriptions);
+  config.registerCommands(engine, context.subscriptions);
+  diags.registerCommands(engine, context.subscriptions);
+  ld.registerCommands(engine, context.subscriptions);
+  hover.registerProviders(engine, context.subscriptions);
+  lp.registerProviders(engine, context.subscriptions);
+  blockers.registerCommands(engine, context.subscriptions);
+  filter.registerCommands(engine, context.subscriptions);
+  graphs.registerCommands(engine, context.subscriptions);
+  pcg.registerCommands(engine, context.subscriptions);
+  callers.registerCommands(engine, context.subscriptions);
+  nest.registerCommands(engine, context.subscriptions);
   let showCalleeFunc = vscode.commands.registerCommand('tsar.callee.func',
     (uri:vscode.Uri) => {
       let project = engine.project(uri);
@@ -202,4 +261,6 @@ export function activate(context: vscode.ExtensionContext) {
       project.send(request);
     });
   context.subscriptions.push(start, stop, statistic, openProject, showCalleeFunc);
+  // Engine is exported to access active projects from extension tests.
+  return engine;
 }
@@ -20,6 +20,16 @@ import {
 import { gotoSpellingLocLink } from './functions';
 import * as path from 'path';
 
+/**
+ * Return absolute path to a specified file.
+ *
+ * Relative paths are resolved against the directory which contains the
+ * project because the analysis server is running in this directory.
+ */
+function resolvePath(project: Project, file: msg.File): string {
+  return path.resolve(path.dirname(project.uri.fsPath), file.Name);
+}
+
 /**
  * Return html representation of a link to expansion locations.
  *
@@ -30,32 +40,32 @@ export function gotoExpansionLocLink(project: Project, loc: msg.Location) :
     string {
   let state = project.providerState(FileListProvider.scheme) as
     FileListProviderState;
-  let fullPath = path.resolve(state.getFile(loc.File).Name);
+  let fullPath = resolvePath(project, state.getFile(loc.File));
   let body = `${path.basename(fullPath)}:${loc.Line}:${loc.Column}`;
   if ((loc.Line == loc.MacroLine) &&
       (loc.Column == loc.MacroColumn)) {
     return `${gotoSpellingLocLink({
       project,
       body: body,
-      path: state.getFile(loc.File).Name,
+      path: fullPath,
       line: loc.Line,
       column: loc.Column
     })}`;
   }
-  let macroFullPath = path.resolve(state.getFile(loc.MacroFile).Name);
+  let macroFullPath = resolvePath(project, state.getFile(loc.MacroFile));
   let macroBody = `${path.basename(macroFullPath)}:${loc.MacroLine}:${loc.MacroColumn}`;
   return `
     ${gotoSpellingLocLink({
       project,
       body: body,
-      path: state.getFile(loc.File).Name,
+      path: fullPath,
       line: loc.Line,
       column: loc.Column
     })}
     (${gotoSpellingLocLink({
       project,
       body: macroBody,
-      path: state.getFile(loc.MacroFile).Name,
+      path: macroFullPath,
       line: loc.MacroLine,
       column: loc.MacroColumn
     })})`;
@@ -74,14 +84,14 @@ export function resolveLocation(
   let state = project.providerState(FileListProvider.scheme) as
     FileListProviderState;
   if (!useMacro) {
-    let fullPath = path.resolve(state.getFile(loc.File).Name);
+    let fullPath = resolvePath(project, state.getFile(loc.File));
     return {
       Path: fullPath,
       Line: loc.Line,
       Column: loc.Column
     }
   }
-  let fullPath = path.resolve(state.getFile(loc.MacroFile).Name);
+  let fullPath = resolvePath(project, state.getFile(loc.MacroFile));
   return {
     Path: fullPath,
     Line: loc.MacroLine,
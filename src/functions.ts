@@ -20,6 +20,16 @@ import * as msg from './messages';
 
 export type DisposableLikeList = { dispose(): any }[];
 
+/**
+ * Create a directory and all its parents if they do not exist.
+ */
+export function makeDirectory(dir: string) {
+  if (fs.existsSync(dir))
+    return;
+  makeDirectory(path.dirname(dir));
+  fs.mkdirSync(dir);
+}
+
 export function isFunction(obj: msg.Function|msg.Loop): obj is msg.Function {
     return (obj as msg.Function).Loops !== undefined;
 }
@@ -277,6 +287,15 @@ export function numberHtml(n: number): string {
   return `<span class="number">${n}</span>`;
 }
 
+/**
+ * Returns a string with html special characters replaced with entities, so
+ * the string can be inserted into html as a text.
+ */
+export function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
  /**
   * A function to update uri before it is inserted into html.
   */
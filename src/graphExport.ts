@@ -0,0 +1,394 @@
+//===--- graphExport.ts ----------- Graph Export ------------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements export of alias trees and call graphs which are shown
+// in webviews. Graphs are written to Graphviz DOT or to JSON with resolved
+// paths to source files. Images (PNG and SVG which wraps PNG) are rendered
+// from the canvas of a webview, so the graph looks as it is shown. Note that
+// SVG is not a vector image, it only embeds PNG.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AliasTreeProvider, AliasTreeProviderState,
+  nodeBackground } from './aliasTree';
+import { CalleeFuncProvider, CalleeFuncProviderState,
+  CallGraphData } from './calleeFunc';
+import { resolveLocation } from './fileList';
+import { DisposableLikeList } from './functions';
+import * as log from './log';
+import * as msg from './messages';
+import { Project, ProjectEngine } from './project';
+
+/**
+ * Location in a source file with a resolved path to the file.
+ */
+export interface ResolvedLocation {
+  Path: string;
+  Line: number;
+  Column: number;
+}
+
+export type ResolveFunc = (loc: msg.Location) => ResolvedLocation;
+
+export type GraphFormat = 'dot' | 'json' | 'svg' | 'png';
+
+/**
+ * Return a string which can be used as an identifier or a label in DOT.
+ */
+function dotString(s: string): string {
+  return `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Return label of an alias tree node which lists memory locations and traits.
+ */
+function aliasNodeLabel(n: msg.AliasNode): string {
+  if (n.Kind === 'Top')
+    return 'Top';
+  let lines = [...(n.SelfMemory || []), ...(n.CoveredMemory || [])].map(
+    m => `${m.Address}, ${m.Size > 0 ? m.Size : '?'}B`);
+  if (n.Kind === 'Unknown' && lines.length == 0)
+    lines.push('unknown');
+  if (n.Traits.length > 0)
+    lines.push(n.Traits.join(', '));
+  return lines.join('\n');
+}
+
+/**
+ * Convert alias tree to Graphviz DOT.
+ */
+export function aliasTreeToDot(tree: msg.AliasTree): string {
+  let title = `alias tree ${tree.FuncID}:${tree.LoopID}`;
+  let dot = `digraph ${dotString(title)} {\n`;
+  dot += '  node [shape=box, style=filled];\n';
+  for (let n of tree.Nodes) {
+    let attrs = [
+      `label=${dotString(aliasNodeLabel(n))}`,
+      `fillcolor=${nodeBackground(n)}`,
+      `color=${n.Coverage ? 'darkorange' : 'grey'}`
+    ];
+    if (n.Kind === 'Top')
+      attrs.push('shape=cylinder');
+    dot += `  n${n.ID} [${attrs.join(', ')}];\n`;
+  }
+  for (let e of tree.Edges)
+    dot += `  n${e.From} -> n${e.To}` +
+      `${e.Kind === 'Unknown' ? ' [style=dashed]' : ''};\n`;
+  return dot + '}\n';
+}
+
+/**
+ * Convert alias tree to JSON, locations in sources are resolved.
+ */
+export function aliasTreeToJSON(tree: msg.AliasTree,
+    resolve: ResolveFunc): any {
+  return JSON.parse(JSON.stringify(tree, (key, value) => {
+    if (key === 'Locations' && Array.isArray(value))
+      return value.map(resolve);
+    if (key === 'DeclLocation' && value)
+      return resolve(value);
+    return value;
+  }));
+}
+
+/**
+ * Description of a caller or a callee in a call graph.
+ */
+interface CallNode {
+  id: string;
+  label: string;
+  color: string;
+}
+
+/**
+ * Return nodes of a call graph, identifiers and colors are the same as in
+ * the call graph view.
+ */
+function callNodes(graph: CallGraphData):
+    Map<msg.Function|msg.Loop, CallNode> {
+  let nodes = new Map<msg.Function|msg.Loop, CallNode>();
+  graph.CallGraph.forEach((_callees, caller) => {
+    if (graph.Functions.get(caller.ID) !== caller) {
+      nodes.set(caller, {
+        id: `.${graph.Target.FuncID}.${caller.ID}`,
+        label: 'loop',
+        color: 'darkorange'
+      });
+      return;
+    }
+    let f = caller as msg.Function;
+    nodes.set(caller, {
+      id: `${f.ID}`,
+      label: f.Name,
+      color: f.ID == graph.Target.FuncID && !graph.Target.LoopID
+        ? 'darkorange' : !f.User ? 'lightgrey'
+        : f.Traits.Parallel === 'Yes' ? 'lightgreen' : 'lightcoral'
+    });
+  });
+  return nodes;
+}
+
+/**
+ * Return identifier of a callee node.
+ */
+function calleeID(callee: msg.CalleeFuncInfo): string {
+  return callee.Kind != msg.StatementKind.Call || !callee.CalleeID
+    ? `.${msg.StatementKind[callee.Kind]}` : `${callee.CalleeID}`;
+}
+
+/**
+ * Convert call graph to Graphviz DOT, the number of calls is attached to
+ * edges if it is known.
+ */
+export function callGraphToDot(graph: CallGraphData): string {
+  let nodes = callNodes(graph);
+  let target = graph.Functions.get(graph.Target.FuncID);
+  let dot = `digraph ${dotString(`call graph ${target.Name}`)} {\n`;
+  dot += '  node [shape=ellipse, style=filled];\n';
+  nodes.forEach(n => dot += `  ${dotString(n.id)} ` +
+    `[label=${dotString(n.label)}, fillcolor=${n.color}];\n`);
+  let statements = new Set<msg.StatementKind>();
+  let edges = '';
+  graph.CallGraph.forEach((callees, caller) => {
+    for (let callee of callees) {
+      if (callee.Kind != msg.StatementKind.Call || !callee.CalleeID)
+        statements.add(callee.Kind);
+      let locations = callee.StartLocation || [];
+      edges += `  ${dotString(nodes.get(caller).id)} -> ` +
+        `${dotString(calleeID(callee))}` +
+        `${locations.length > 0 ? ` [label=${locations.length}]` : ''};\n`;
+    }
+  });
+  statements.forEach(kind => {
+    let name = msg.StatementKind[kind];
+    dot += `  ${dotString(`.${name}`)} ` +
+      `[label=${dotString(name.toLowerCase())}, fillcolor=lightsalmon];\n`;
+  });
+  return dot + edges + '}\n';
+}
+
+/**
+ * Convert call graph to JSON, locations in sources are resolved.
+ */
+export function callGraphToJSON(graph: CallGraphData,
+    resolve: ResolveFunc): any {
+  let nodes = callNodes(graph);
+  let callers = [];
+  graph.CallGraph.forEach((callees, caller) => callers.push({
+    ID: nodes.get(caller).id,
+    Name: nodes.get(caller).label,
+    Location: resolve(caller.StartLocation),
+    Callees: callees.map(callee => {
+      let f = graph.Functions.get(callee.CalleeID);
+      return {
+        ID: calleeID(callee),
+        Kind: msg.StatementKind[callee.Kind],
+        Name: callee.Kind == msg.StatementKind.Call && f ? f.Name : undefined,
+        Locations: (callee.StartLocation || []).map(resolve)
+      };
+    })
+  }));
+  return { Target: graph.Target, CallGraph: callers };
+}
+
+/**
+ * Image which is rendered from a canvas in a webview.
+ */
+interface Image {
+  /**
+   * Image in PNG format as a data URL.
+   */
+  data: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Return script for a webview which renders a graph in response to
+ * the 'export' message.
+ *
+ * @param container Identifier of an element which contains vis-network
+ *                  canvas.
+ */
+export function exportScript(container: string): string {
+  return `
+    window.addEventListener('message', event => {
+      if (event.data.command !== 'export')
+        return;
+      const canvas =
+        document.getElementById('${container}').getElementsByTagName('canvas')[0];
+      // Canvas is transparent, so draw it over a white background.
+      const image = document.createElement('canvas');
+      image.width = canvas.width;
+      image.height = canvas.height;
+      const context = image.getContext('2d');
+      context.fillStyle = 'white';
+      context.fillRect(0, 0, image.width, image.height);
+      context.drawImage(canvas, 0, 0);
+      vscode.postMessage({
+        command: 'export',
+        data: image.toDataURL('image/png'),
+        width: image.width,
+        height: image.height
+      });
+    });`;
+}
+
+/**
+ * Time to wait for an image rendered by a webview (in milliseconds).
+ */
+const renderTimeout = 10000;
+
+/**
+ * Render a graph which is shown in a webview panel.
+ *
+ * The promise is rejected if the panel is closed or the image is not
+ * rendered in time.
+ */
+function renderImage(panel: vscode.WebviewPanel): Promise<Image> {
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timer;
+    let disposables: vscode.Disposable[] = [];
+    let settle = (err?: Error, image?: Image) => {
+      clearTimeout(timer);
+      for (let d of disposables.splice(0))
+        d.dispose();
+      if (err)
+        reject(err);
+      else
+        resolve(image);
+    };
+    disposables.push(
+      panel.webview.onDidReceiveMessage(message => {
+        if (message.command === 'export')
+          settle(undefined, message);
+      }),
+      panel.onDidDispose(() => settle(new Error(log.Export.closed))));
+    timer = setTimeout(() => settle(new Error(
+      log.Export.timeout.replace('{0}', `${renderTimeout}`))), renderTimeout);
+    panel.webview.postMessage({ command: 'export' }).then(delivered => {
+      if (!delivered)
+        settle(new Error(log.Export.notShown));
+    });
+  });
+}
+
+/**
+ * Return SVG document which embeds PNG image.
+ */
+export function imageToSVG(image: Image): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg version="1.1" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${image.width}" height="${image.height}" viewBox="0 0 ${image.width} ${image.height}">
+ <image width="${image.width}" height="${image.height}" xlink:href="${image.data}"/>
+</svg>
+`;
+}
+
+/**
+ * Ask the user to select format and file and write a graph.
+ *
+ * @param name Default name of the file (without extension).
+ * @param text Return textual representation of a graph in a specified format.
+ * @param panel Webview panel which shows the graph.
+ */
+async function exportGraph(project: Project, name: string,
+    text: (format: 'dot'|'json') => string, panel: vscode.WebviewPanel) {
+  let formats = [
+    { label: 'DOT', description: log.Export.dot, format: 'dot' },
+    { label: 'SVG', description: log.Export.svg, format: 'svg' },
+    { label: 'PNG', description: log.Export.png, format: 'png' },
+    { label: 'JSON', description: log.Export.json, format: 'json' }
+  ] as { label: string, description: string, format: GraphFormat }[];
+  let item = await vscode.window.showQuickPick(formats,
+    { placeHolder: log.Export.format });
+  if (item === undefined)
+    return;
+  // Propose to save the graph near sources instead of the project-specific
+  // directory (.tsar).
+  let folder = vscode.workspace.getWorkspaceFolder(project.uri);
+  let dir = folder !== undefined
+    ? folder.uri.fsPath : path.dirname(project.dirname);
+  let uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(dir, `${name}.${item.format}`)),
+    filters: { [item.label]: [item.format] }
+  });
+  if (uri === undefined)
+    return;
+  try {
+    switch (item.format) {
+      case 'dot':
+      case 'json':
+        fs.writeFileSync(uri.fsPath, text(item.format));
+        break;
+      case 'svg':
+        fs.writeFileSync(uri.fsPath, imageToSVG(await renderImage(panel)));
+        break;
+      case 'png':
+        let image = await renderImage(panel);
+        fs.writeFileSync(uri.fsPath, Buffer.from(
+          image.data.substring(image.data.indexOf(',') + 1), 'base64'));
+        break;
+    }
+    vscode.window.showInformationMessage(
+      `${log.Extension.displayName} | ${project.prjname}: ` +
+      log.Export.saved.replace('{0}', uri.fsPath));
+  }
+  catch (err) {
+    vscode.window.showErrorMessage(
+      `${log.Extension.displayName} | ${project.prjname}: ${err.message}`);
+  }
+}
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let exportAliasTree = vscode.commands.registerCommand('tsar.alias.export',
+    async (data?: vscode.Uri|Project) => {
+      let project = await engine.select(data);
+      if (project === undefined)
+        return;
+      let state = project.providerState(
+        AliasTreeProvider.scheme) as AliasTreeProviderState;
+      let tree = state.tree();
+      if (!state.active || tree === undefined) {
+        vscode.window.showErrorMessage(
+          `${log.Extension.displayName} | ${project.prjname}: ` +
+          log.Export.notShown);
+        return;
+      }
+      let resolve = (loc: msg.Location) => resolveLocation(project, loc);
+      return exportGraph(project,
+        `alias-tree-${tree.FuncID}-${tree.LoopID}`,
+        format => format === 'dot' ? aliasTreeToDot(tree)
+          : JSON.stringify(aliasTreeToJSON(tree, resolve), null, 2),
+        state.panel);
+    });
+  let exportCallGraph = vscode.commands.registerCommand('tsar.callee.export',
+    async (data?: vscode.Uri|Project) => {
+      let project = await engine.select(data);
+      if (project === undefined)
+        return;
+      let state = project.providerState(
+        CalleeFuncProvider.scheme) as CalleeFuncProviderState;
+      let graph = state.graph();
+      if (!state.active || graph === undefined) {
+        vscode.window.showErrorMessage(
+          `${log.Extension.displayName} | ${project.prjname}: ` +
+          log.Export.notShown);
+        return;
+      }
+      let resolve = (loc: msg.Location) => resolveLocation(project, loc);
+      return exportGraph(project,
+        `call-graph-${graph.Target.FuncID}-${graph.Target.LoopID || 0}`,
+        format => format === 'dot' ? callGraphToDot(graph)
+          : JSON.stringify(callGraphToJSON(graph, resolve), null, 2),
+        state.panel);
+    });
+  subscriptions.push(exportAliasTree, exportCallGraph);
+}
@@ -0,0 +1,264 @@
+//===--- history.ts -------- Transformation History --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements history of transformations. Before a transformation
+// changes sources, files which are affected are stored in a project-specific
+// directory (.tsar/history/<timestamp>) together with the command line which
+// has been used to run the transformation. The history is available in
+// the explorer view. Each stored file can be compared with the current one
+// and restored.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { makeDirectory } from './functions';
+import * as log from './log';
+
+/**
+ * Description of a transformation run which is stored in the history.
+ */
+export interface HistoryEntry {
+  /**
+   * Title of a transformation.
+   */
+  Title: string;
+
+  /**
+   * Arguments of a command line which has been used to run transformation.
+   */
+  Args: string[];
+
+  /**
+   * Option which selects transformation.
+   */
+  Query?: string;
+
+  /**
+   * Paths to stored files, relative to the directory which contains
+   * the project-specific directory.
+   */
+  Files: string[];
+}
+
+type HistoryItem = HistoryProject | HistoryRun | HistoryFile;
+
+/**
+ * Return path to the directory which contains history of a project.
+ *
+ * @param base Directory which contains the project-specific directory.
+ */
+function historyPath(base: string): string {
+  return path.join(base, log.Project.directory, log.Project.history);
+}
+
+/**
+ * Provide view which lists stored transformation runs.
+ */
+export class TransformationHistory
+    implements vscode.TreeDataProvider<HistoryItem> {
+  #disposables: vscode.Disposable[] = [];
+  #bases = new Set<string>();
+  #onDidChangeTreeData = new vscode.EventEmitter<HistoryItem|void>();
+
+  readonly onDidChangeTreeData = this.#onDidChangeTreeData.event;
+
+  constructor() {
+    this.#disposables.push(
+      vscode.window.registerTreeDataProvider('tsar.history', this),
+      vscode.commands.registerCommand('tsar.history.refresh',
+        () => this.refresh()),
+      vscode.commands.registerCommand('tsar.history.compare',
+        (item: HistoryFile) => this.compare(item)),
+      vscode.commands.registerCommand('tsar.history.restore',
+        (item: HistoryRun|HistoryFile) => this.restore(item)));
+    this.refresh();
+  }
+
+  dispose() {
+    this.#disposables.forEach(d => d.dispose());
+    this.#disposables.length = 0;
+  }
+
+  /**
+   * Store files of a project before they are changed by a transformation.
+   *
+   * Nothing is recorded if there are no files in the project directory.
+   *
+   * @param base Directory which contains the project-specific directory.
+   * @param args Arguments of a command line which runs transformation.
+   * @param query Option which selects transformation.
+   * @param files Map from paths to files to their content.
+   */
+  record(base: string, title: string, args: string[], query: string,
+      files: Map<string, string>) {
+    let dir = path.join(historyPath(base), `${Date.now()}`);
+    let entry: HistoryEntry = { Title: title, Args: args, Files: [] };
+    if (query)
+      entry.Query = query;
+    let stored: [string, string][] = [];
+    for (let [fsPath, content] of files) {
+      let relative = path.relative(base, fsPath);
+      // Files outside the project directory are not stored.
+      if (relative.startsWith('..') || path.isAbsolute(relative))
+        continue;
+      stored.push([relative, content]);
+    }
+    if (stored.length == 0) {
+      log.Log.logs[0].write(log.History.notRecorded.replace('{0}', base));
+      return;
+    }
+    for (let [relative, content] of stored) {
+      let snapshot = path.join(dir, log.Project.snapshot, relative);
+      makeDirectory(path.dirname(snapshot));
+      fs.writeFileSync(snapshot, content);
+      entry.Files.push(relative);
+    }
+    fs.writeFileSync(path.join(dir, log.Project.historyEntry),
+      JSON.stringify(entry, null, 2));
+    log.Log.logs[0].write(log.History.recorded.replace('{0}', dir));
+    this.#bases.add(base);
+    this.#onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Look for histories of projects in the workspace.
+   */
+  async refresh() {
+    let entries = await vscode.workspace.findFiles(
+      `**/${log.Project.directory}/${log.Project.history}/*/` +
+      log.Project.historyEntry);
+    for (let entry of entries)
+      this.#bases.add(path.dirname(path.dirname(path.dirname(
+        path.dirname(entry.fsPath)))));
+    this.#onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: HistoryItem): vscode.TreeItem { return element; }
+
+  getChildren(element?: HistoryItem): HistoryItem[] {
+    if (!element)
+      return Array.from(this.#bases)
+        .filter(base => fs.existsSync(historyPath(base)))
+        .sort().map(base => new HistoryProject(base));
+    if (element instanceof HistoryProject) {
+      let runs: HistoryRun[] = [];
+      let dir = historyPath(element.base);
+      // The latest run is the first.
+      for (let timestamp of fs.readdirSync(dir).sort().reverse()) {
+        let entryPath = path.join(dir, timestamp, log.Project.historyEntry);
+        try {
+          let entry = JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+          runs.push(new HistoryRun(element.base, path.join(dir, timestamp),
+            Number(timestamp), entry));
+        }
+        catch (err) {
+          log.Log.logs[0].write(log.Error.historyEntry
+            .replace('{0}', entryPath).replace('{1}', err.message));
+        }
+      }
+      return runs;
+    }
+    if (element instanceof HistoryRun)
+      return element.entry.Files.map(f => new HistoryFile(element, f));
+    return [];
+  }
+
+  /**
+   * Compare a stored file with the current one.
+   */
+  compare(item: HistoryFile) {
+    vscode.commands.executeCommand('vscode.diff',
+      vscode.Uri.file(item.snapshot), vscode.Uri.file(item.fsPath),
+      log.History.title
+        .replace('{0}', path.basename(item.fsPath))
+        .replace('{1}', item.run.label));
+  }
+
+  /**
+   * Restore all files stored for a transformation run or a single file.
+   *
+   * Files are changed with a workspace edit, so restoration can be undone
+   * in editors. The current state of files is also stored in the history
+   * if files have been restored.
+   */
+  async restore(item: HistoryRun|HistoryFile) {
+    let files = item instanceof HistoryRun
+      ? item.entry.Files.map(f => new HistoryFile(item, f)) : [item];
+    let run = item instanceof HistoryRun ? item : item.run;
+    let current = new Map<string, string>();
+    let edit = new vscode.WorkspaceEdit;
+    let docs: vscode.TextDocument[] = [];
+    for (let file of files) {
+      let content = fs.readFileSync(file.snapshot, 'utf8');
+      let uri = vscode.Uri.file(file.fsPath);
+      if (!fs.existsSync(file.fsPath)) {
+        edit.createFile(uri, { ignoreIfExists: true });
+        edit.insert(uri, new vscode.Position(0, 0), content);
+        continue;
+      }
+      let doc = await vscode.workspace.openTextDocument(uri);
+      current.set(file.fsPath, doc.getText());
+      edit.replace(uri, new vscode.Range(
+        doc.positionAt(0), doc.positionAt(doc.getText().length)), content);
+      docs.push(doc);
+    }
+    if (!await vscode.workspace.applyEdit(edit)) {
+      vscode.window.showErrorMessage(`${log.Extension.displayName}: ` +
+        log.Error.restore.replace('{0}', run.label));
+      return;
+    }
+    // Files have been changed, so the state before restoration is recorded.
+    this.record(run.base, log.History.restore.replace('{0}', run.entry.Title),
+      [], undefined, current);
+    await Promise.all(docs.map(doc => doc.save()));
+    vscode.window.showInformationMessage(`${log.Extension.displayName}: ` +
+      log.History.restored.replace('{0}', run.label));
+  }
+}
+
+class HistoryProject extends vscode.TreeItem {
+  constructor(public readonly base: string) {
+    super(path.basename(base), vscode.TreeItemCollapsibleState.Expanded);
+    this.tooltip = base;
+    this.contextValue = 'historyProject';
+  }
+}
+
+class HistoryRun extends vscode.TreeItem {
+  constructor(
+      public readonly base: string,
+      public readonly dir: string,
+      public readonly timestamp: number,
+      public readonly entry: HistoryEntry) {
+    super(`${entry.Title} (${new Date(timestamp).toLocaleString()})`,
+      vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = entry.Query;
+    this.tooltip =
+      entry.Args.concat(entry.Query ? [entry.Query] : []).join(' ');
+    this.contextValue = 'historyRun';
+  }
+}
+
+class HistoryFile extends vscode.TreeItem {
+  readonly fsPath: string;
+  readonly snapshot: string;
+
+  constructor(public readonly run: HistoryRun, relative: string) {
+    super(relative, vscode.TreeItemCollapsibleState.None);
+    this.fsPath = path.resolve(run.base, relative);
+    this.snapshot = path.join(run.dir, log.Project.snapshot, relative);
+    this.resourceUri = vscode.Uri.file(this.fsPath);
+    this.tooltip = this.fsPath;
+    this.contextValue = 'historyFile';
+    this.command = {
+      command: 'tsar.history.compare',
+      title: log.History.compare,
+      arguments: [this]
+    };
+  }
+}
@@ -0,0 +1,163 @@
+//===--- hover.ts ------------- Hover Provider -------------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements hover provider which shows traits of a loop if its
+// header is hovered and traits of a variable which is accessed in analyzed
+// loops. Data which are already available in states of loop tree and alias
+// tree providers are used, the server is asked only if data are missed.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { AliasTreeProvider, AliasTreeProviderState,
+  describeTrait } from './aliasTree';
+import { DisposableLikeList } from './functions';
+import { FileListProvider, FileListProviderState,
+  resolveLocation } from './fileList';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { Project, ProjectEngine } from './project';
+
+const loopKeywords = ['for', 'while', 'do'];
+
+/**
+ * Return description of traits of a specified loop.
+ */
+function loopHover(loop: msg.Loop): vscode.MarkdownString {
+  let text = new vscode.MarkdownString();
+  text.appendMarkdown(`**${log.Hover.loop.replace('{0}',
+    `${loop.StartLocation.Line}:${loop.StartLocation.Column}`)}**\n\n`);
+  for (let trait of ['Parallel', 'Canonical', 'Perfect', 'InOut', 'UnsafeCFG'])
+    text.appendMarkdown(`- ${trait}: ${loop.Traits[trait]}\n`);
+  text.appendMarkdown(`- Exit: ${loop.Exit}\n`);
+  return text;
+}
+
+/**
+ * Return list of traits of a variable with a specified name in an alias tree.
+ *
+ * Traits which are set for the whole node are also attached to variables
+ * which are stored in this node.
+ */
+function variableTraits(tree: msg.AliasTree, name: string): string[] {
+  let traits: string[] = [];
+  for (let n of tree.Nodes) {
+    let memories = [
+      [n.SelfMemory || [], true], [n.CoveredMemory || [], false]
+    ] as [msg.MemoryLocation[], boolean][];
+    for (let [memory, isSelf] of memories)
+      for (let m of memory) {
+        if (!m.Object || m.Object.Name !== name)
+          continue;
+        let names = new Set(Object.keys(m.Traits || {}));
+        if (isSelf)
+          n.Traits.forEach(t => names.add(t));
+        for (let t of names) {
+          let dptr = m.Traits && m.Traits[t]
+            ? describeTrait(t, m.Traits[t]) : '';
+          let trait = dptr ? `${t} ${dptr}` : t;
+          if (traits.indexOf(trait) < 0)
+            traits.push(trait);
+        }
+      }
+  }
+  return traits;
+}
+
+class TraitsHoverProvider implements vscode.HoverProvider {
+  private _engine: ProjectEngine;
+
+  constructor(engine: ProjectEngine) { this._engine = engine; }
+
+  async provideHover(document: vscode.TextDocument, position: vscode.Position):
+      Promise<vscode.Hover|undefined> {
+    let range = document.getWordRangeAtPosition(position);
+    if (range === undefined)
+      return undefined;
+    let word = document.getText(range);
+    for (let project of this._engine.projects()) {
+      let found = this._function(project, document.uri.fsPath, position);
+      if (found === undefined)
+        continue;
+      let loopTreeState = project.providerState(
+        LoopTreeProvider.scheme) as LoopTreeProviderState;
+      let loops: msg.Loop[];
+      try {
+        loops = await loopTreeState.loops(project, found);
+      }
+      catch (err) {
+        return undefined;
+      }
+      if (loopKeywords.indexOf(word) >= 0) {
+        let loop = loops.find(l => l.StartLocation.Line == position.line + 1 &&
+          l.StartLocation.Column == range.start.character + 1);
+        return loop ? new vscode.Hover(loopHover(loop), range) : undefined;
+      }
+      return this._variableHover(project, found, loops, word, position, range);
+    }
+    return undefined;
+  }
+
+  /**
+   * Return function which contains a specified position.
+   */
+  private _function(project: Project, fsPath: string,
+      position: vscode.Position): msg.Function|undefined {
+    let fileState = project.providerState(
+      FileListProvider.scheme) as FileListProviderState;
+    let loopTreeState = project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    if (!fileState.actual(new msg.FileList) ||
+        loopTreeState.functions() === undefined)
+      return undefined;
+    return loopTreeState.functions().find(f => f.User &&
+      f.StartLocation.Line <= position.line + 1 &&
+      f.EndLocation.Line >= position.line + 1 &&
+      resolveLocation(project, f.StartLocation).Path === fsPath);
+  }
+
+  /**
+   * Return traits of a variable in each loop which contains a specified
+   * position, the innermost loop is the first.
+   */
+  private async _variableHover(project: Project, f: msg.Function,
+      loops: msg.Loop[], name: string, position: vscode.Position,
+      range: vscode.Range): Promise<vscode.Hover|undefined> {
+    let aliasTreeState = project.providerState(
+      AliasTreeProvider.scheme) as AliasTreeProviderState;
+    let line = position.line + 1;
+    let enclosing = loops.filter(l =>
+      l.Traits.IsAnalyzed === 'Yes' &&
+      l.StartLocation.Line <= line && l.EndLocation.Line >= line);
+    enclosing.sort((l1, l2) => l2.Level - l1.Level);
+    let text = new vscode.MarkdownString();
+    for (let loop of enclosing) {
+      let tree = await aliasTreeState.aliasTree(project, f.ID, loop.ID);
+      if (tree === undefined)
+        continue;
+      let traits = variableTraits(tree, name);
+      if (traits.length == 0)
+        continue;
+      text.appendMarkdown(`**${log.Hover.variable
+        .replace('{0}', name)
+        .replace('{1}',
+          `${loop.StartLocation.Line}:${loop.StartLocation.Column}`)}**\n\n`);
+      for (let trait of traits)
+        text.appendMarkdown(`- ${trait}\n`);
+      text.appendMarkdown('\n');
+    }
+    return text.value.length > 0 ? new vscode.Hover(text, range) : undefined;
+  }
+}
+
+export function registerProviders(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let hover = vscode.languages.registerHoverProvider(
+    [{ scheme: 'file', language: 'c' }, { scheme: 'file', language: 'cpp' }],
+    new TraitsHoverProvider(engine));
+  subscriptions.push(hover);
+}
@@ -43,6 +43,13 @@ export class Project {
   static input = 'input.log';
   static session = 'session.{0}.log'
   static tooltip = 'Name of the project';
+  static compilationDatabase = 'compile_commands.json';
+  static config = 'project.json';
+  static preview = 'preview';
+  static history = 'history';
+  static historyEntry = 'history.json';
+  static snapshot = 'sources';
+  static transformationOptions = 'transformation.json';
 }
 
 export class Error {
@@ -58,6 +65,9 @@ export class Error {
     }).join(', ')}`;
   static internal = `internal error, if it will occur again, please contact the application developers (${Extension.url})`;
   static rejected = 'request has been rejected by the server';
+  static timeout = 'request {0} has not been answered in {1} ms';
+  static closed = 'analysis session has been closed before {0} has been received';
+  static cancelled = 'request for {0} has been cancelled';
   static unknownResponse = 'unknown response has been received {0}';
   static unknownMessage = 'unknown message has been received {0}';
   static openFile = 'can not open file {0}';
@@ -67,6 +77,14 @@ export class Error {
   static osIncompatible = 'incompatible type of platform, {0} expected';
   static environment = 'can not establish environment for compiler';
   static closeReminder = 'Examine output and do not forget to close the analysis session!';
+  static compilationDatabase = 'unable to parse compilation database {0}: {1}';
+  static emptyDatabase = 'compilation database {0} does not contain any C/C++ sources';
+  static noProject = 'nothing to analyze, open a source file or add {0} to the workspace';
+  static projectConfig = 'unable to load project configuration {0}: {1}';
+  static protocolVersion = 'unsupported version of protocol {0}';
+  static historyEntry = 'unable to load transformation history {0}: {1}';
+  static restore = 'unable to restore {0}';
+  static configFormat = 'lists of strings expected in Sources, IncludePaths, Defines and Options, string expected in AnalysisServer, object which contains lists of strings expected in Pipelines';
 }
 
 export class Message {
@@ -80,6 +98,7 @@ export class Message {
   static connection = 'connection is successfully established, client {0}, server {1}';
   static serverFound = 'analysis server found {0}';
   static serverVersion = 'version of the analysis server is {0}';
+  static protocolVersion = 'version of the protocol is {0}';
   static stopServer = 'server is stopped with {0} signal';
   static serverState = 'server in state {0}: {1}';
   static serverIORedirected = 'server IO has been redirected';
@@ -88,6 +107,9 @@ export class Message {
   static tryCompilerEnv = 'try to establish environment for compiler: {0}';
   static environment = 'environment for compiler is established: {0}';
   static generalEnv = 'general environment';
+  static configLoaded = 'project configuration is loaded from {0}';
+  static configSaved = 'project configuration is saved to {0}';
+  static selectProject = 'Select project.';
   static selectOptions: 'Select additional options if necessary.'
 }
 
@@ -129,6 +151,46 @@ export class CallGraph {
   static callees = 'Callees';
 }
 
+export class Callers {
+  static title = 'Callers of {0}';
+  static build = 'View callers of a function';
+  static none = 'The function is not called from user-defined functions.';
+  static summary = '{0} call sites in {1} functions.';
+  static callerName = 'Caller';
+  static location = 'Call site';
+  static loops = 'Enclosing loops';
+  static parallel = 'Parallel';
+  static inParallel = 'inside a parallel loop';
+  static inSerial = 'inside serial loops';
+  static outside = 'outside loops';
+}
+
+export class LoopNest {
+  static title = 'Loop nests of {0}';
+  static build = 'View loop nests of a function';
+  static noLoops = 'There are no loops in the function.';
+  static level = 'level {0}';
+  static hint = 'Loops are arranged according to their nesting levels. Red arrows show data dependencies carried by a loop with distances of dependencies, dashed arrows show may dependencies. Click a loop to view its details.';
+  static notAnalyzed = 'The loop has not been analyzed.';
+  static inductions = 'Induction variables';
+  static dependences = 'Carried dependencies';
+  static noDependences = 'There are no carried dependencies.';
+  static distance = 'distance {0}';
+}
+
+export class ProgramCallGraph {
+  static title = 'Call graph of {0}';
+  static build = 'View call graph of the whole program';
+  static colorBy = 'Color by';
+  static show = 'Show';
+  static all = 'Whole program';
+  static callees = 'Callees of selected function';
+  static callers = 'Callers of selected function';
+  static group = 'Collapse library functions';
+  static library = 'library functions ({0})';
+  static hint = 'Recursive calls are highlighted with red. Double-click a function to go to its definition.';
+}
+
 export class AliasTree {
   static title = 'Alias tree for {0}';
   static build = 'Build alias tree';
@@ -138,12 +200,151 @@ export class AliasTree {
   static traisList = 'List of traits';
   static hasSeparate = 'Trait is set for some of memory locations separately';
   static hasCombined = 'Trait is set for the whole node';
+  static search = 'Find variable';
+  static found = '{0} found';
+  static allNodes = 'All nodes';
+  static filter = '{0} only';
+  static focus = 'Focus';
+  static unfocus = 'Reset focus';
+  static focusTitle = 'Dim everything except the path from the root to the selected node';
+  static expand = 'Expand all';
+  static collapseTitle = 'Double-click a node to collapse or expand its subtree';
+}
+
+export class Blockers {
+  static title = 'Why {0} is not parallel';
+  static build = 'Why is this loop not parallel?';
+  static loop = 'loop at {0} in {1}';
+  static unknownLoop = 'the loop';
+  static parallel = 'The loop can be executed in parallel.';
+  static notFound = 'The loop is not found, rebuild the loop tree.';
+  static unknown = 'The analyzer does not report reasons which prevent parallel execution of the loop.';
+  static notAnalyzed = 'loop has not been analyzed';
+  static notCanonical = 'loop is not in a canonical form';
+  static notPerfect = 'loop nest is not perfect';
+  static dependence = '{0} dependence of {1} {2}';
+  static call = 'call of {0}';
+  static unsafeCFG = 'unsafe control flow: {0}';
+  static inout = 'in/out operation: {0}';
+}
+
+export class Export {
+  static title = 'Export graph';
+  static format = 'Select format of the exported graph';
+  static dot = 'Graphviz DOT';
+  static svg = 'PNG image rendered from the view and embedded in SVG (not a vector image)';
+  static png = 'PNG image rendered from the view';
+  static json = 'Raw data with resolved paths to source files';
+  static notShown = 'graph is not shown, open it at first';
+  static saved = 'graph has been saved to {0}';
+  static closed = 'graph has been closed before it is rendered';
+  static timeout = 'graph has not been rendered in {0} ms';
+}
+
+export class Filter {
+  static placeHolder = 'name, file:<name>, parallel, !canonical, io, unsafe, exit>1, depth<=2';
+  static prompt = 'Show functions and loops which satisfy all conditions (leave empty to show all)';
+  static active = 'Filter: {0}';
+  static clear = 'Clear filter';
 }
 
 export class Summary {
   static title = 'Analysis result summary for {0}';
 }
 
+export class CodeLens {
+  static parallel = 'Parallel {0}';
+  static loopTree = 'Loop tree';
+  static aliasTree = 'Alias tree';
+  static callGraph = 'Call graph';
+  static io = 'I/O';
+  static unsafeCFG = 'Unsafe CFG';
+}
+
+export class Hover {
+  static loop = 'Loop at {0}';
+  static variable = '{0} in loop at {1}';
+}
+
+export class Preview {
+  static title = '{0} ↔ {1}';
+  static ready = 'review changes before they are applied to sources';
+  static noChanges = 'transformation has not changed sources';
+  static outsideProject = 'preview is not possible because some sources, headers or include paths are located outside the project directory, disable preview in settings to change sources in place';
+  static compilationDatabase = 'preview is not available for projects which are described with a compilation database, sources will be changed in place';
+  static inPlace = 'Change Sources';
+  static apply = 'Apply';
+  static discard = 'Discard';
+}
+
+export class Pipeline {
+  static step = 'step {0} of {1}: {2}';
+  static stopped = 'pipeline is stopped because {0} has failed';
+  static select = 'Select transformation pipeline.';
+  static notFound = 'no transformation pipelines are defined in settings or in the project configuration';
+  static unknown = 'unknown steps in pipeline {0}: {1}';
+  static failed = '{0} has failed, changes are discarded';
+}
+
+export class Options {
+  static select = '{0}: {1}';
+  static invalid = 'invalid value of {0}';
+  static yes = 'Yes';
+  static no = 'No';
+  static serverDefault = 'Default';
+  static omit = 'Do not specify {0}';
+}
+
+export class Progress {
+  static analysis = 'analysis';
+  static receive = 'request is received by the server';
+  static send = 'response is sent by the server';
+  static data = 'processing...';
+}
+
+export class Parallel {
+  static title = '{0} parallelization of loop at {1}';
+  static select = 'Select parallel programming model.';
+  static build = 'Parallelize loop';
+  static noSession = 'start analysis session to parallelize a loop';
+  static notFound = 'loop is not found, rebuild the loop tree';
+  static notParallel = 'loop at {0} cannot be executed in parallel';
+  static noTraits = 'traits of variables in the loop at {0} are not available';
+  static location = 'loop at {0} does not start at the beginning of a line';
+  static reduction = 'unknown kind of reduction of {0} in {1}';
+  static unsupported = 'private variables {0} are not supported in {1}';
+  static insert = 'Insert OpenMP directive';
+  static copy = 'Copy OpenMP directive';
+  static copied = 'directive is copied to the clipboard';
+}
+
+export class Region {
+  static title = '{0} in {1}';
+  static lines = 'lines {0}-{1}';
+  static loop = 'loop at {0}';
+  static function = 'function {0}';
+  static notFound = 'select statements to transform or start analysis to find a loop or a function which contains the cursor';
+  static outside = 'transformation changes sources outside the region';
+  static statements = 'select whole statements to transform';
+  static declarations = 'variables {0} are declared in the region and used after it, so the region can not be wrapped in a compound statement';
+  static body = 'unable to find the body of the function';
+}
+
+export class History {
+  static title = '{0} ({1}) ↔ current';
+  static compare = 'Compare with Current';
+  static restore = 'Restore before {0}';
+  static restored = '{0} is restored';
+  static recorded = 'transformation history is recorded to {0}';
+  static notRecorded = 'transformation history is not recorded: there are no files to store in {0}';
+}
+
+export class Problems {
+  static collection = 'tsar-{0}';
+  static showOutput = 'Show TSAR output for {0}';
+  static showProblems = 'Show Problems';
+}
+
 /**
  * This is a helpful class to log data.
  *
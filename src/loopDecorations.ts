@@ -0,0 +1,344 @@
+//===--- loopDecorations.ts ------- Loop Decorations -------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements provider to highlight loops in open editors according
+// to analysis results. Parallel loops are marked with green and loops which
+// have flow, anti or output dependencies are marked with red. Loop trees and
+// alias trees which are necessary to highlight loops are requested
+// automatically. Decorations can be switched on and off for each project.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { hasDependence } from './aliasTree';
+import { DisposableLikeList } from './functions';
+import { FileListProvider, FileListProviderState,
+  resolveLocation } from './fileList';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import {
+  Project,
+  ProjectContentProvider,
+  ProjectContentProviderState,
+  ProjectEngine
+} from './project';
+
+/**
+ * Return true if there are flow, anti or output dependencies in a specified
+ * alias tree, in some nodes or in some memory locations.
+ */
+export function hasDependencies(tree: msg.AliasTree): boolean {
+  return tree.Nodes.some(hasDependence);
+}
+
+/**
+ * Lines (0-based) of loops which are highlighted in a file.
+ */
+export interface LoopLines {
+  Parallel: number[];
+  Dependence: number[];
+}
+
+interface DecorationTypes {
+  parallelGutter: vscode.TextEditorDecorationType;
+  parallelRegion: vscode.TextEditorDecorationType;
+  dependenceGutter: vscode.TextEditorDecorationType;
+  dependenceRegion: vscode.TextEditorDecorationType;
+}
+
+export class LoopDecorationProviderState implements ProjectContentProviderState {
+  #provider: LoopDecorationProvider;
+  #isActive = false;
+  #enabled: boolean;
+  #types: DecorationTypes|undefined;
+  #dependencies = new Map<string, boolean>();
+  #requested = new Set<string>();
+  #lines = new Map<string, LoopLines>();
+  #onDidDisposeContent = new vscode.EventEmitter<void>();
+  #onDidChangeActiveState = new vscode.EventEmitter<boolean>();
+
+  readonly onDidDisposeContent = this.#onDidDisposeContent.event;
+  readonly onDidChangeActiveState = this.#onDidChangeActiveState.event;
+  readonly disposables: vscode.Disposable[] = [];
+
+  constructor(provider: LoopDecorationProvider) {
+    this.#provider = provider;
+    let userConfig = vscode.workspace.getConfiguration(log.Extension.id);
+    this.#enabled = userConfig.get('loopDecorations.enabled', true);
+  }
+
+  get provider(): LoopDecorationProvider { return this.#provider; }
+
+  get active(): boolean { return this.#isActive; }
+  set active(is: boolean) {
+    this.#isActive = is;
+    this.#onDidChangeActiveState.fire(this.#isActive);
+  }
+
+  actual(_request: any): boolean { return false; }
+
+  /**
+   * Return true if loops should be highlighted.
+   */
+  get enabled(): boolean { return this.#enabled; }
+  set enabled(is: boolean) {
+    this.#enabled = is;
+    if (!is)
+      this.hide();
+  }
+
+  /**
+   * Return decoration types, create new ones if they do not exist.
+   */
+  get types(): DecorationTypes {
+    if (this.#types === undefined) {
+      let gutter = (icon: string) =>
+        vscode.window.createTextEditorDecorationType({
+          gutterIconPath: path.join(log.Extension.icons, icon),
+          gutterIconSize: 'contain'
+        });
+      let region = (color: string) =>
+        vscode.window.createTextEditorDecorationType({
+          backgroundColor: new vscode.ThemeColor(color),
+          overviewRulerColor: new vscode.ThemeColor(color),
+          overviewRulerLane: vscode.OverviewRulerLane.Left,
+          isWholeLine: true
+        });
+      this.#types = {
+        parallelGutter: gutter('parallel.svg'),
+        parallelRegion: region('tsarAdvisor.parallelLoopBackground'),
+        dependenceGutter: gutter('dependence.svg'),
+        dependenceRegion: region('tsarAdvisor.dependenceLoopBackground')
+      };
+    }
+    return this.#types;
+  }
+
+  /**
+   * Return lines of loops which are highlighted in a specified file.
+   */
+  lines(fsPath: string): LoopLines|undefined {
+    return this.#lines.get(fsPath);
+  }
+
+  /**
+   * Remember lines of loops which are highlighted in a specified file.
+   */
+  setLines(fsPath: string, lines: LoopLines) {
+    this.#lines.set(fsPath, lines);
+  }
+
+  /**
+   * Return `true` if a loop has dependencies, `false` if it has no
+   * dependencies and `undefined` if it is not known yet.
+   */
+  dependencies(func: msg.Function, loop: msg.Loop): boolean|undefined {
+    return this.#dependencies.get(`${func.ID}:${loop.ID}`);
+  }
+
+  setDependencies(func: msg.Function, loop: msg.Loop, has: boolean) {
+    this.#dependencies.set(`${func.ID}:${loop.ID}`, has);
+  }
+
+  /**
+   * Mark that some data has been requested, return `false` if it has been
+   * already requested.
+   */
+  request(key: string): boolean {
+    if (this.#requested.has(key))
+      return false;
+    this.#requested.add(key);
+    return true;
+  }
+
+  /**
+   * Forget all collected data, for example if analysis results are updated.
+   */
+  reset() {
+    this.#dependencies.clear();
+    this.#requested.clear();
+  }
+
+  /**
+   * Remove all decorations.
+   */
+  hide() {
+    if (this.#types !== undefined) {
+      for (let key in this.#types)
+        this.#types[key].dispose();
+      this.#types = undefined;
+    }
+    this.#lines.clear();
+  }
+
+  dispose() {
+    this.hide();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables.length = 0;
+  }
+}
+
+/**
+ * Highlight loops in visible editors for active projects.
+ */
+export class LoopDecorationProvider implements ProjectContentProvider {
+  static scheme = "tsar-loop-decorations";
+
+  #disposables: vscode.Disposable[] = [];
+  #projects = new Set<Project>();
+  #onDidAriseInternalError = new vscode.EventEmitter<Error>();
+
+  readonly onDidAriseInternalError = this.#onDidAriseInternalError.event;
+
+  constructor() {
+    this.#disposables.push(vscode.window.onDidChangeVisibleTextEditors(
+      () => this.#projects.forEach(p => this.decorate(p))));
+  }
+
+  state(): LoopDecorationProviderState {
+    return new LoopDecorationProviderState(this);
+  }
+
+  update(project: Project) {
+    this.#projects.add(project);
+    let response = project.response;
+    if (response instanceof msg.FunctionList) {
+      let state = project.providerState(
+        LoopDecorationProvider.scheme) as LoopDecorationProviderState;
+      state.reset();
+    }
+    if (response === undefined ||
+        response instanceof msg.FileList ||
+        response instanceof msg.FunctionList ||
+        response instanceof msg.LoopTree)
+      this.decorate(project);
+  }
+
+  clear(project: Project) {
+    this.#projects.delete(project);
+  }
+
+  dispose() {
+    this.#disposables.forEach(d => d.dispose());
+    this.#disposables.length = 0;
+  }
+
+  /**
+   * Highlight loops of a specified project in visible editors.
+   *
+   * Missed loop trees and alias trees are requested and loops are
+   * highlighted again when responses are received.
+   */
+  decorate(project: Project) {
+    let state = project.providerState(
+      LoopDecorationProvider.scheme) as LoopDecorationProviderState;
+    // Project may be closed before the response to a request is received.
+    if (state === undefined || !state.enabled)
+      return;
+    let fileState = project.providerState(
+      FileListProvider.scheme) as FileListProviderState;
+    let loopTreeState = project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    if (!fileState.actual(new msg.FileList) ||
+        loopTreeState.functions() === undefined)
+      return;
+    let editors = vscode.window.visibleTextEditors.filter(
+      e => e.document.uri.scheme === 'file');
+    if (editors.length == 0)
+      return;
+    let visible = new Set(editors.map(e => e.document.uri.fsPath));
+    let regions = new Map<string, { parallel: vscode.Range[],
+      dependence: vscode.Range[] }>();
+    for (let f of loopTreeState.functions()) {
+      if (!f.User)
+        continue;
+      let file = resolveLocation(project, f.StartLocation).Path;
+      if (!visible.has(file))
+        continue;
+      if (f.Loops === undefined || f.Loops.length == 0) {
+        if (f.Traits.Loops === 'Yes' && state.request(`${f.ID}`)) {
+          let request = new msg.LoopTree;
+          request.FunctionID = f.ID;
+          project.send(request);
+        }
+        continue;
+      }
+      let fileRegions = regions.get(file);
+      if (fileRegions === undefined)
+        regions.set(file, fileRegions = { parallel: [], dependence: [] });
+      for (let loop of f.Loops) {
+        let start = resolveLocation(project, loop.StartLocation);
+        let end = resolveLocation(project, loop.EndLocation);
+        // Loop may be in a macro, so the end location may be in another file.
+        let range = new vscode.Range(start.Line - 1, 0,
+          end.Path === start.Path ? end.Line - 1 : start.Line - 1, 0);
+        if (loop.Traits.Parallel === 'Yes') {
+          fileRegions.parallel.push(range);
+        } else if (loop.Traits.IsAnalyzed === 'Yes') {
+          let has = state.dependencies(f, loop);
+          if (has)
+            fileRegions.dependence.push(range);
+          else if (has === undefined)
+            this._requestDependencies(project, state, f, loop);
+        }
+      }
+    }
+    let types = state.types;
+    for (let editor of editors) {
+      let fileRegions = regions.get(editor.document.uri.fsPath) ||
+        { parallel: [], dependence: [] };
+      let startOf = (r: vscode.Range) => new vscode.Range(r.start, r.start);
+      state.setLines(editor.document.uri.fsPath, {
+        Parallel: fileRegions.parallel.map(r => r.start.line),
+        Dependence: fileRegions.dependence.map(r => r.start.line)
+      });
+      editor.setDecorations(types.parallelGutter,
+        fileRegions.parallel.map(startOf));
+      editor.setDecorations(types.parallelRegion, fileRegions.parallel);
+      editor.setDecorations(types.dependenceGutter,
+        fileRegions.dependence.map(startOf));
+      editor.setDecorations(types.dependenceRegion, fileRegions.dependence);
+    }
+  }
+
+  /**
+   * Request alias tree for a loop to check whether it has dependencies.
+   */
+  private _requestDependencies(project: Project,
+      state: LoopDecorationProviderState, func: msg.Function, loop: msg.Loop) {
+    if (!state.request(`${func.ID}:${loop.ID}`))
+      return;
+    let request = new msg.AliasTree;
+    request.FuncID = func.ID;
+    request.LoopID = loop.ID;
+    // Rejected request means that dependencies are unknown, so the loop is
+    // not highlighted. Errors are logged because nobody waits for them.
+    project.send<msg.AliasTree>(request, { notify: false })
+      .then(tree => hasDependencies(tree), () => false)
+      .then(has => {
+        state.setDependencies(func, loop, has);
+        this.decorate(project);
+      })
+      .catch(err => log.Log.logs[0].write(err.message));
+  }
+}
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let toggle = vscode.commands.registerCommand('tsar.loop.decorations',
+    async (data?: vscode.Uri|Project) => {
+      let project = await engine.select(data);
+      if (project === undefined)
+        return;
+      let state = project.providerState(
+        LoopDecorationProvider.scheme) as LoopDecorationProviderState;
+      state.enabled = !state.enabled;
+      state.provider.decorate(project);
+    });
+  subscriptions.push(toggle);
+}
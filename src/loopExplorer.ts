@@ -18,6 +18,9 @@ import {Project, ProjectContentProvider,
   ProjectContentProviderState} from './project';
 import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
 import { resolveLocation } from './fileList';
+import { isVisible } from './loopFilter';
+
+type ExplorerItem = SourceRegion | SourceFile | Project;
 
 class LoopTreeViewProviderState implements ProjectContentProviderState {
   #provider: LoopTreeViewProvider;
@@ -45,7 +48,7 @@ class LoopTreeViewProviderState implements ProjectContentProviderState {
 * Provide project explorere view that lists loop trees for active projects.
 */
 export class LoopTreeViewProvider
-  implements vscode.TreeDataProvider<SourceRegion | Project>,
+  implements vscode.TreeDataProvider<ExplorerItem>,
              ProjectContentProvider {
   #disposables: vscode.Disposable[] = [];
   #projects = new Set<Project>();
@@ -53,8 +56,12 @@ export class LoopTreeViewProvider
     new vscode.EventEmitter<Project | void>();
   #onDidAriseInternalError = new vscode.EventEmitter<Error>();
 
-  private _isSourceRegion(obj: SourceRegion|Project): obj is SourceRegion {
-    return (obj as SourceRegion).project !== undefined;
+  private _isSourceRegion(obj: ExplorerItem): obj is SourceRegion {
+    return (obj as SourceRegion).object !== undefined;
+  }
+
+  private _isSourceFile(obj: ExplorerItem): obj is SourceFile {
+    return (obj as SourceFile).fsPath !== undefined;
   }
 
   static scheme = "tsar-looptree-view";
@@ -72,8 +79,18 @@ export class LoopTreeViewProvider
       'tsar.func.analyze', (region: SourceRegion) => this.build(region));
     vscode.commands.registerCommand(
       'tsar.alias.tree', (region: SourceRegion) => this.buildAliasTree(region));
+    vscode.commands.registerCommand(
+      'tsar.loopTree.parallel',
+      (region: SourceRegion) => this.parallelize(region));
+    vscode.commands.registerCommand(
+      'tsar.loopTree.blockers',
+      (region: SourceRegion) => this.explain(region));
     vscode.commands.registerCommand(
       'tsar.call.graph', (region: SourceRegion) => this.buildCallGraph(region));
+    vscode.commands.registerCommand(
+      'tsar.loopTree.callers', (region: SourceRegion) => this.callers(region));
+    vscode.commands.registerCommand(
+      'tsar.loopTree.nest', (region: SourceRegion) => this.loopNest(region));
     vscode.commands.registerCommand(
       'tsar.call.graph.io',
       (region: SourceRegion) => this.buildCallGraph(region,
@@ -107,6 +124,12 @@ export class LoopTreeViewProvider
   update(project: Project) {
     if (!this.#projects.has(project)) {
       this.#projects.add(project);
+      let state = project.providerState(
+        LoopTreeViewProvider.scheme) as LoopTreeViewProviderState;
+      let loopTreeState = project.providerState(
+        LoopTreeProvider.scheme) as LoopTreeProviderState;
+      state.disposables.push(loopTreeState.onDidChangeFilter(
+        () => this.#onDidChangeTreeData.fire()));
       this.#onDidChangeTreeData.fire();
     } else {
       if (project.response !== undefined &&
@@ -117,8 +140,8 @@ export class LoopTreeViewProvider
   }
 
 
-  getTreeItem(element: SourceRegion|Project): vscode.TreeItem {
-    if (this._isSourceRegion(element))
+  getTreeItem(element: ExplorerItem): vscode.TreeItem {
+    if (this._isSourceRegion(element) || this._isSourceFile(element))
       return element;
     let loopTreeState = element.providerState(
       LoopTreeProvider.scheme) as LoopTreeProviderState;
@@ -128,24 +151,48 @@ export class LoopTreeViewProvider
         : vscode.TreeItemCollapsibleState.Expanded);
     item.contextValue = 'project';
     item.tooltip = log.Project.tooltip;
+    if (loopTreeState.filter !== undefined)
+      item.description =
+        log.Filter.active.replace('{0}', loopTreeState.filter.text);
     return item;
   }
 
-  getChildren(element?: SourceRegion|Project): SourceRegion[]|Project [] {
+  getChildren(element?: ExplorerItem): ExplorerItem [] {
     if (!element) {
       let regions = [];
       this.#projects.forEach((key)=>regions.push(key));
       return regions;
     }
-    if (!this._isSourceRegion(element)) {
+    if (!this._isSourceRegion(element) && !this._isSourceFile(element) &&
+        element.sources.length > 1) {
+      // Group functions by files if a project consists of multiple files.
       let loopTreeState = element.providerState(
         LoopTreeProvider.scheme) as LoopTreeProviderState;
+      let files = new Set<string>();
+      if (loopTreeState.functions() !== undefined)
+        for (let func of loopTreeState.functions()) {
+          if (!func.User)
+            continue;
+          let file = resolveLocation(element, func.StartLocation).Path;
+          if (isVisible(loopTreeState.filter, func, file))
+            files.add(file);
+        }
+      return Array.from(files).sort().map(f => new SourceFile(f, element));
+    }
+    if (!this._isSourceRegion(element)) {
+      let project = this._isSourceFile(element) ? element.project : element;
+      let loopTreeState = project.providerState(
+        LoopTreeProvider.scheme) as LoopTreeProviderState;
       let regions : SourceRegion [] = [];
       if (loopTreeState.functions() !== undefined)
         for (let func of loopTreeState.functions()) {
           if (!func.User)
             continue;
-          let item = new SourceRegion(func, func, element,
+          let file = resolveLocation(project, func.StartLocation).Path;
+          if (this._isSourceFile(element) && file !== element.fsPath ||
+              !isVisible(loopTreeState.filter, func, file))
+            continue;
+          let item = new SourceRegion(func, func, project,
             func.Traits.Loops === "Yes"
               ? vscode.TreeItemCollapsibleState.Collapsed
               : vscode.TreeItemCollapsibleState.None);
@@ -170,6 +217,12 @@ export class LoopTreeViewProvider
             }));
         return undefined;
       }
+    let loopTreeState = element.project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    let file = resolveLocation(element.project,
+      element.root.StartLocation).Path;
+    let visible = (loop: msg.Loop) =>
+      isVisible(loopTreeState.filter, element.root, file, loop);
     let regions : SourceRegion [] = [];
     let parentIdx = -1, parentLevel = 0;
     if (!isFunction(element.object)) {
@@ -184,12 +237,15 @@ export class LoopTreeViewProvider
       let loop = element.root.Loops[idx];
       if (loop.Level == parentLevel)
         break;
-      if (loop.Level != parentLevel + 1)
+      if (loop.Level != parentLevel + 1 || !visible(loop))
         continue;
+      let hasChildren = false;
+      for (let i = idx + 1; i < element.root.Loops.length &&
+           element.root.Loops[i].Level > loop.Level && !hasChildren; ++i)
+        hasChildren = element.root.Loops[i].Level == loop.Level + 1 &&
+          visible(element.root.Loops[i]);
       let item = new SourceRegion(loop, element.root, element.project,
-          idx + 1 < element.root.Loops.length &&
-          element.root.Loops[idx+1].Level == loop.Level + 1
-          ? vscode.TreeItemCollapsibleState.Collapsed
+          hasChildren ? vscode.TreeItemCollapsibleState.Collapsed
           : vscode.TreeItemCollapsibleState.None);
       item.command = {
         command: "tsar.loopTree.goto", title: "", arguments: [item]
@@ -227,6 +283,40 @@ export class LoopTreeViewProvider
     vscode.commands.executeCommand('tsar.loop.alias', uri);
   }
 
+  explain(region: SourceRegion): void {
+    let uri = region.project.uri.with({
+      query: JSON.stringify({
+        FuncID: region.root.ID,
+        LoopID: region.object.ID
+      })
+    });
+    vscode.commands.executeCommand('tsar.loop.blockers', uri);
+  }
+
+  parallelize(region: SourceRegion): void {
+    let uri = region.project.uri.with({
+      query: JSON.stringify({
+        FuncID: region.root.ID,
+        LoopID: region.object.ID
+      })
+    });
+    vscode.commands.executeCommand('tsar.loop.parallel', uri);
+  }
+
+  callers(region: SourceRegion): void {
+    let uri = region.project.uri.with({
+      query: JSON.stringify({ FuncID: region.root.ID })
+    });
+    vscode.commands.executeCommand('tsar.callers', uri);
+  }
+
+  loopNest(region: SourceRegion): void {
+    let uri = region.project.uri.with({
+      query: JSON.stringify({ FuncID: region.root.ID })
+    });
+    vscode.commands.executeCommand('tsar.loop.nest', uri);
+  }
+
   buildCallGraph(region: SourceRegion, attr?: msg.StatementAttr) : void {
     let query = {FuncID: region.root.ID};
     if (!isFunction(region.object))
@@ -238,6 +328,17 @@ export class LoopTreeViewProvider
   }
 }
 
+class SourceFile extends vscode.TreeItem {
+  constructor(
+      public readonly fsPath: string,
+      public readonly project: Project) {
+    super(path.basename(fsPath), vscode.TreeItemCollapsibleState.Collapsed);
+    this.resourceUri = vscode.Uri.file(fsPath);
+    this.tooltip = fsPath;
+    this.contextValue = 'file';
+  }
+}
+
 class SourceRegion extends vscode.TreeItem {
   constructor(
       public readonly object: msg.Function|msg.Loop,
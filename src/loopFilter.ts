@@ -0,0 +1,186 @@
+//===--- loopFilter.ts ------ Function and Loop Filter ------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements filter which narrows lists of functions and loops in
+// the TSAR Explorer and in the list of functions. The filter is a list of
+// space separated conditions, a function or a loop is shown if it satisfies
+// all conditions or if some of its nested loops satisfy them. The filter is
+// stored in the state of the loop tree provider, so it is shared between
+// views of a project.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DisposableLikeList } from './functions';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { Project, ProjectEngine } from './project';
+
+/**
+ * Function or a loop to check.
+ */
+export interface FilterRegion {
+  Function: msg.Function;
+  Loop?: msg.Loop;
+
+  /**
+   * Path to a file which contains the function.
+   */
+  File: string;
+}
+
+type Condition = (region: FilterRegion) => boolean;
+
+export interface LoopFilter {
+  /**
+   * Text of the filter as it has been specified by the user.
+   */
+  text: string;
+
+  conditions: Condition[];
+}
+
+/**
+ * Names of traits which can be used in conditions.
+ */
+const traits: { [name: string]: string } = {
+  parallel: 'Parallel',
+  canonical: 'Canonical',
+  perfect: 'Perfect',
+  io: 'InOut',
+  unsafe: 'UnsafeCFG',
+  readonly: 'Readonly'
+};
+
+const comparisons: { [op: string]: (x: number, y: number) => boolean } = {
+  '>=': (x, y) => x >= y,
+  '<=': (x, y) => x <= y,
+  '>': (x, y) => x > y,
+  '<': (x, y) => x < y,
+  '=': (x, y) => x == y
+};
+
+/**
+ * Build filter from a specified text.
+ *
+ * The following conditions are supported:
+ * - trait (parallel, canonical, perfect, io, unsafe, readonly) or its
+ *   negation (!trait), functions do not have canonical and perfect traits,
+ * - exit or depth (nesting level of a loop, 0 for functions) which are
+ *   compared with a number (>, >=, <, <=, =),
+ * - file:<name> which is a part of a file name,
+ * - name:<name> or any other word which is a part of a function name.
+ */
+export function parseFilter(text: string): LoopFilter {
+  let conditions: Condition[] = [];
+  for (let term of text.trim().split(/\s+/).filter(t => t)) {
+    let match = term.match(/^(exit|depth)(>=|<=|>|<|=)(\d+)$/);
+    if (match) {
+      let [, property, op, value] = match;
+      conditions.push(r => {
+        let x = property === 'depth' ? (r.Loop ? r.Loop.Level : 0)
+          : (r.Loop || r.Function).Exit;
+        return x !== null && x !== undefined &&
+          comparisons[op](x, Number(value));
+      });
+      continue;
+    }
+    match = term.match(/^(!?)([a-z]+)$/);
+    if (match && traits[match[2]] !== undefined) {
+      let negation = match[1] === '!';
+      let trait = traits[match[2]];
+      conditions.push(r => {
+        let value = (r.Loop || r.Function).Traits[trait];
+        return value !== undefined && (value === 'Yes') !== negation;
+      });
+      continue;
+    }
+    match = term.match(/^file:(.+)$/);
+    if (match) {
+      let file = match[1].toLowerCase();
+      conditions.push(
+        r => path.basename(r.File).toLowerCase().indexOf(file) >= 0);
+      continue;
+    }
+    match = term.match(/^name:(.+)$/);
+    let name = (match ? match[1] : term).toLowerCase();
+    conditions.push(r => r.Function.Name.toLowerCase().indexOf(name) >= 0);
+  }
+  return { text: text.trim(), conditions };
+}
+
+/**
+ * Return `true` if a specified function (or a loop if it is specified) or
+ * some of nested loops satisfy a filter.
+ *
+ * @param file Path to a file which contains the function.
+ */
+export function isVisible(filter: LoopFilter|undefined, func: msg.Function,
+    file: string, loop?: msg.Loop): boolean {
+  if (filter === undefined)
+    return true;
+  let matches = (l?: msg.Loop) =>
+    filter.conditions.every(c => c({ Function: func, Loop: l, File: file }));
+  if (matches(loop))
+    return true;
+  let loops = func.Loops || [];
+  let level = loop === undefined ? 0 : loop.Level;
+  for (let idx = loops.indexOf(loop) + 1;
+       idx < loops.length && loops[idx].Level > level; ++idx)
+    if (matches(loops[idx]))
+      return true;
+  return false;
+}
+
+/**
+ * Set filter for a specified project and update views.
+ */
+async function applyFilter(project: Project, filter: LoopFilter|undefined) {
+  let state = project.providerState(
+    LoopTreeProvider.scheme) as LoopTreeProviderState;
+  // Loops are necessary to check whether nested regions satisfy the filter.
+  if (filter !== undefined && state.functions() !== undefined)
+    for (let f of state.functions().filter(f => f.User))
+      try {
+        await state.loops(project, f);
+      }
+      catch (err) {
+        log.Log.logs[0].write(err.message);
+      }
+  state.filter = filter;
+  if (state.active)
+    state.provider.update(project);
+}
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let filter = vscode.commands.registerCommand('tsar.loopTree.filter',
+    async (data?: vscode.Uri|Project) => {
+      let project = await engine.select(data);
+      if (project === undefined)
+        return;
+      let state = project.providerState(
+        LoopTreeProvider.scheme) as LoopTreeProviderState;
+      let text = await vscode.window.showInputBox({
+        ignoreFocusOut: true,
+        value: state.filter !== undefined ? state.filter.text : '',
+        placeHolder: log.Filter.placeHolder,
+        prompt: log.Filter.prompt
+      });
+      if (text === undefined)
+        return;
+      return applyFilter(project, text.trim() ? parseFilter(text) : undefined);
+    });
+  let clear = vscode.commands.registerCommand('tsar.loopTree.filter.clear',
+    async (data?: vscode.Uri|Project) => {
+      let project = await engine.select(data);
+      if (project !== undefined)
+        return applyFilter(project, undefined);
+    });
+  subscriptions.push(filter, clear);
+}
@@ -0,0 +1,446 @@
+//===--- loopNest.ts -------------- Loop Nest --------------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements provider to show loop nests of a function as a graph.
+// Each loop is labelled with its induction variables and their bounds from
+// the alias tree of the loop. Data dependencies which are carried by a loop
+// are shown as arrows from the loop to itself with ranges of distances, so
+// it is easy to see which level of a nest carries a dependence.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { AliasTreeProvider, AliasTreeProviderState,
+  memoryTraits } from './aliasTree';
+import { enclosingLoops } from './callers';
+import { gotoExpansionLocLink } from './fileList';
+import { DisposableLikeList, headHtml, UpdateUriFunc } from './functions';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { Project, ProjectEngine } from './project';
+import { ProjectWebviewProviderState,
+  ProjectWebviewProvider } from './webviewProvider';
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let showLoopNest = vscode.commands.registerCommand('tsar.loop.nest',
+    (uri: vscode.Uri) => {
+      let project = engine.project(uri);
+      let state = project.providerState(
+        LoopNestProvider.scheme) as LoopNestProviderState;
+      state.target = JSON.parse(uri.query).FuncID;
+      project.focus = state;
+      if (state.active)
+        state.provider.update(project);
+      else
+        state.active = true;
+    });
+  subscriptions.push(showLoopNest);
+}
+
+/**
+ * Induction variable of a loop.
+ */
+export interface Induction {
+  Name: string;
+  Kind: string;
+  Start?: string;
+  End?: string;
+  Step?: string;
+}
+
+/**
+ * Data dependence which is carried by a loop.
+ */
+export interface Dependence {
+  /**
+   * Kind of a dependence: flow, anti or output.
+   */
+  Kind: string;
+  Name: string;
+  May: boolean;
+
+  /**
+   * Bounds of dependence distance if they are known.
+   */
+  Min?: string;
+  Max?: string;
+
+  Locations: msg.Location[];
+}
+
+/**
+ * Loop in a loop nest.
+ */
+export interface NestedLoop {
+  Loop: msg.Loop;
+
+  /**
+   * Identifier of the loop which immediately contains this loop.
+   */
+  Parent?: number;
+
+  Inductions: Induction[];
+  Dependences: Dependence[];
+}
+
+const dependencies = ['flow', 'anti', 'output'];
+
+/**
+ * Return memory locations of alias tree nodes together with their traits.
+ *
+ * Traits which are set for the whole node are also attached to each memory
+ * location explicitly represented in the node.
+ */
+function treeMemoryTraits(tree: msg.AliasTree):
+    [msg.MemoryLocation, string[]][] {
+  return [].concat(...tree.Nodes.map(memoryTraits));
+}
+
+function objectName(m: msg.MemoryLocation): string {
+  return m.Object && m.Object.Name ? m.Object.Name : m.Address;
+}
+
+/**
+ * Return induction variables from an alias tree of a loop.
+ */
+export function inductions(tree: msg.AliasTree): Induction[] {
+  let result: Induction[] = [];
+  for (let [m, traits] of treeMemoryTraits(tree)) {
+    if (traits.indexOf('induction') < 0)
+      continue;
+    let name = objectName(m);
+    if (result.some(i => i.Name == name))
+      continue;
+    let dptr = m.Traits && m.Traits['induction'] || {};
+    result.push({
+      Name: name,
+      Kind: dptr.Kind,
+      Start: dptr.Start,
+      End: dptr.End,
+      Step: dptr.Step
+    });
+  }
+  return result;
+}
+
+/**
+ * Return the lower (`lower` is `true`) or the upper bound of two bounds of
+ * dependence distance. The result is unknown if some of the bounds are
+ * unknown or they can not be compared.
+ */
+function mergeBound(b1: string|undefined, b2: string|undefined,
+    lower: boolean): string|undefined {
+  if (b1 === undefined || b2 === undefined)
+    return undefined;
+  if (b1 == b2)
+    return b1;
+  let n1 = Number(b1), n2 = Number(b2);
+  if (isNaN(n1) || isNaN(n2))
+    return undefined;
+  return (n1 < n2) == lower ? b1 : b2;
+}
+
+/**
+ * Return data dependencies from an alias tree of a loop.
+ *
+ * Dependencies of the same kind for memory locations of the same object are
+ * merged. The merged dependence is a may dependence if all of them are may
+ * dependencies and its distance covers distances of all of them.
+ */
+export function dependences(tree: msg.AliasTree): Dependence[] {
+  let result: Dependence[] = [];
+  for (let [m, traits] of treeMemoryTraits(tree))
+    for (let t of traits.filter(t => dependencies.indexOf(t) >= 0)) {
+      let name = objectName(m);
+      let dptr = m.Traits && m.Traits[t] || {};
+      let dep = result.find(d => d.Kind == t && d.Name == name);
+      if (dep === undefined) {
+        result.push({
+          Kind: t, Name: name, May: !!dptr.May, Min: dptr.Min, Max: dptr.Max,
+          Locations: [...(m.Locations || [])]
+        });
+        continue;
+      }
+      dep.May = dep.May && !!dptr.May;
+      dep.Min = mergeBound(dep.Min, dptr.Min, true);
+      dep.Max = mergeBound(dep.Max, dptr.Max, false);
+      dep.Locations.push(...(m.Locations || []));
+    }
+  return result;
+}
+
+/**
+ * Return description of a dependence distance, for example `1` or `1:3`.
+ */
+export function describeDistance(dep: Dependence): string {
+  if (dep.Min === undefined && dep.Max === undefined)
+    return '?';
+  if (dep.Min == dep.Max)
+    return dep.Min;
+  return `${dep.Min !== undefined ? dep.Min : ''}:` +
+    `${dep.Max !== undefined ? dep.Max : ''}`;
+}
+
+/**
+ * Return description of an induction variable, for example `I = 0:N:1`.
+ */
+export function describeInduction(induction: Induction): string {
+  let bound = (b: string) => b !== undefined ? b : '?';
+  return `${induction.Name} = ${bound(induction.Start)}:` +
+    `${bound(induction.End)}:${bound(induction.Step)}`;
+}
+
+/**
+ * Build loop nests of a function.
+ *
+ * @param trees Alias trees of loops, dependencies and induction variables of
+ * a loop are unknown if its alias tree is not available.
+ */
+export function loopNest(loops: msg.Loop[],
+    trees: Map<number, msg.AliasTree>): NestedLoop[] {
+  return loops.map(l => {
+    let parent = enclosingLoops(loops, l.StartLocation).find(
+      p => p.Level == l.Level - 1);
+    let tree = trees.get(l.ID);
+    return {
+      Loop: l,
+      Parent: parent !== undefined ? parent.ID : undefined,
+      Inductions: tree !== undefined ? inductions(tree) : [],
+      Dependences: tree !== undefined ? dependences(tree) : []
+    };
+  });
+}
+
+interface Data {
+  Target: number;
+  Function: msg.Function;
+  Loops: NestedLoop[];
+}
+
+export class LoopNestProviderState extends
+    ProjectWebviewProviderState<LoopNestProvider> {
+  /**
+   * Identifier of a function to show loop nests of.
+   */
+  target: number|undefined;
+
+  get active(): boolean { return super.active; }
+
+  set active(is: boolean) {
+    if (!is)
+      this._data = undefined;
+    super.active = is;
+  }
+
+  onResponse(_response: any, project: Project): Thenable<Data|undefined> {
+    if (this.target === undefined)
+      return Promise.resolve(undefined);
+    let data = this._data as Data;
+    if (data !== undefined && data.Target == this.target)
+      return Promise.resolve(data);
+    return this._build(this.target, project);
+  }
+
+  /**
+   * Build loop nests of a target function.
+   *
+   * Missed information is requested from the server. Providers are not
+   * notified about these requests.
+   */
+  private async _build(target: number, project: Project): Promise<Data> {
+    let loopTreeState = project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    let functions = loopTreeState.functions();
+    if (functions === undefined)
+      functions = (await project.send<msg.FunctionList>(
+        new msg.FunctionList, { notify: false })).Functions;
+    let func = functions.find(f => f.ID == target);
+    let loops = await loopTreeState.loops(project, func);
+    let aliasTreeState = project.providerState(
+      AliasTreeProvider.scheme) as AliasTreeProviderState;
+    let trees = new Map<number, msg.AliasTree>();
+    for (let l of loops) {
+      if (l.Traits.IsAnalyzed !== 'Yes')
+        continue;
+      let tree = await aliasTreeState.aliasTree(project, func.ID, l.ID);
+      if (tree !== undefined)
+        trees.set(l.ID, tree);
+    }
+    let data: Data = {
+      Target: target,
+      Function: func,
+      Loops: loopNest(loops, trees)
+    };
+    this._data = data;
+    return data;
+  }
+}
+
+export class LoopNestProvider extends ProjectWebviewProvider {
+  static scheme = "tsar-loopnest";
+
+  public scheme(): string { return LoopNestProvider.scheme; }
+
+  public state(): LoopNestProviderState {
+    return new LoopNestProviderState(this);
+  }
+
+  protected _title(): string { return log.LoopNest.title; }
+
+  protected _needToHandle(_response: any): boolean { return false; }
+
+  /**
+   * Return description of a loop which is shown when the loop is selected.
+   */
+  private _loopInfo(project: Project, nested: NestedLoop): string {
+    let info = `
+      <h6>
+        <var>${nested.Loop.Type.toLowerCase()}</var> at
+        ${gotoExpansionLocLink(project, nested.Loop.StartLocation)}
+      </h6>`;
+    if (nested.Loop.Traits.IsAnalyzed !== 'Yes')
+      return info + `<p>${log.LoopNest.notAnalyzed}</p>`;
+    info += `<h6 class="pt-2">${log.LoopNest.inductions}</h6>
+      <ul class="list-unstyled ml-2">
+        ${nested.Inductions.map(i => `
+        <li><var>${describeInduction(i)}</var> (${i.Kind})</li>`).join('')}
+      </ul>`;
+    info += `<h6 class="pt-2">${log.LoopNest.dependences}</h6>`;
+    if (nested.Dependences.length == 0)
+      return info + `<p class="ml-2">${log.LoopNest.noDependences}</p>`;
+    info += `
+      <ul class="list-unstyled ml-2">
+        ${nested.Dependences.map(d => `
+        <li>
+          ${d.May ? 'may' : 'must'} ${d.Kind} <var>${d.Name}</var>,
+          ${log.LoopNest.distance.replace('{0}', describeDistance(d))}
+          <div class="small">
+            ${d.Locations.map(
+              loc => gotoExpansionLocLink(project, loc)).join(', ')}
+          </div>
+        </li>`).join('')}
+      </ul>`;
+    return info;
+  }
+
+  protected _provideContent(project: Project, data: Data,
+      asWebviewUri: UpdateUriFunc): string {
+    let target = `<var>${data.Function.Name}</var> declared at ` +
+      gotoExpansionLocLink(project, data.Function.StartLocation);
+    if (data.Loops.length == 0)
+      return `
+        <!doctype html>
+        <html lang="en">
+          ${headHtml(asWebviewUri)}
+          <body class="bg-light">
+            <div class="container-fluid pt-4">
+              <h3>${this._title().replace('{0}', target)}</h3>
+              <p>${log.LoopNest.noLoops}</p>
+            </div>
+          </body>
+        </html>`;
+    // The function is the root of all loop nests.
+    let nodes: any[] = [{
+      id: 0,
+      label: data.Function.Name,
+      level: 0,
+      shape: 'ellipse',
+      color: { background: 'floralwhite', border: 'grey' }
+    }];
+    let edges: any[] = [];
+    for (let nested of data.Loops) {
+      let l = nested.Loop;
+      let isCarrier = nested.Dependences.length > 0;
+      let label = [l.Type.toLowerCase(),
+        ...nested.Inductions.map(describeInduction),
+        log.LoopNest.level.replace('{0}', `${l.Level}`)];
+      nodes.push({
+        id: l.ID,
+        label: label.join('\n'),
+        level: l.Level,
+        info: this._loopInfo(project, nested),
+        borderWidth: isCarrier ? 3 : 1,
+        color: {
+          background: l.Traits.Parallel === 'Yes' ? 'lightgreen'
+            : isCarrier ? 'lightcoral' : 'floralwhite',
+          border: isCarrier ? 'red' : 'grey'
+        }
+      });
+      edges.push({
+        from: nested.Parent !== undefined ? nested.Parent : 0,
+        to: l.ID,
+        color: { color: 'grey' }
+      });
+      for (let d of nested.Dependences)
+        edges.push({
+          from: l.ID,
+          to: l.ID,
+          label: `${d.Kind} ${d.Name}: ${describeDistance(d)}`,
+          dashes: d.May,
+          arrows: 'to',
+          color: { color: 'red' },
+          font: { color: 'red', strokeWidth: 0, align: 'top' }
+        });
+    }
+    return `
+      <!doctype html>
+      <html lang="en">
+        ${headHtml(asWebviewUri, {bootstrap: true, visNetwork: true})}
+        <body class="bg-light">
+          <div class="container-fluid pt-4" style="height:100%">
+            <h3>${this._title().replace('{0}', target)}</h3>
+            <p class="small">${log.LoopNest.hint}</p>
+            <div class="row" style="height:85%">
+              <div class="col-9" style="height:100%">
+                <div id="loopNest" style="height:100%"></div>
+              </div>
+              <div class="col-3" style="height:100%">
+                <div id="loopInfo" style="max-height:100%; overflow:scroll"></div>
+              </div>
+            </div>
+          </div>
+          <script type="text/javascript">
+            var nodes = new vis.DataSet(${JSON.stringify(nodes)});
+            var edges = new vis.DataSet(${JSON.stringify(edges)});
+            var container = document.getElementById('loopNest');
+            var options = {
+              layout: {
+                hierarchical: {
+                  direction: 'UD',
+                  sortMethod: 'directed'
+                }
+              },
+              physics: {
+                hierarchicalRepulsion: {
+                  avoidOverlap: 1
+                }
+              },
+              nodes: {
+                shape: 'box',
+                margin: 10
+              },
+              edges: {
+                selfReferenceSize: 30
+              }
+            };
+            var network = new vis.Network(container,
+              { nodes: nodes, edges: edges }, options);
+            network.on('click', selected => {
+              const loopInfo = document.getElementById('loopInfo');
+              loopInfo.innerHTML = '';
+              if (!selected.nodes || selected.nodes.length != 1)
+                return;
+              const n = nodes.get(selected.nodes[0]);
+              if (n.info)
+                loopInfo.innerHTML = n.info;
+            });
+          </script>
+        </body>
+      </html>`;
+  }
+}
@@ -0,0 +1,405 @@
+//===--- loopParallel.ts ------- Loop Parallelization ------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements parallelization of a single loop which is chosen in
+// the loop tree. Traits of variables are taken from the alias tree of the loop
+// which has been already computed by the server, so the loop is parallelized
+// without running of a transformation. Clauses of OpenMP or DVMH directive
+// are built according to these traits. The OpenMP directive is also proposed
+// as a quick fix at the header of a parallel loop in an editor.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { AliasTreeProvider, AliasTreeProviderState } from './aliasTree';
+import { FileListProvider, FileListProviderState,
+  resolveLocation } from './fileList';
+import { DisposableLikeList } from './functions';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { currentText } from './preview';
+import { Project, ProjectEngine } from './project';
+import { eol } from './region';
+
+/**
+ * Parallel programming model which is used to parallelize a loop.
+ */
+export type ParallelModel = 'OpenMP' | 'DVMH';
+
+const models: ParallelModel[] = ['OpenMP', 'DVMH'];
+
+/**
+ * Names of variables which are mentioned in clauses of a parallel directive.
+ */
+export interface LoopClauses {
+  Private: string[];
+  FirstPrivate: string[];
+  LastPrivate: string[];
+
+  /**
+   * Reduction variables grouped by kinds of reduction (Add, Mult, ...).
+   */
+  Reduction: { [kind: string]: string[] };
+
+  /**
+   * Private variables which values after the loop can not be expressed with
+   * clauses (values are assigned in the second to last iteration or in an
+   * unknown iteration).
+   */
+  Unsupported: string[];
+}
+
+/**
+ * Clauses which correspond to different kinds of private variables.
+ */
+const privateTraits: {
+  [trait: string]: 'Private'|'FirstPrivate'|'LastPrivate'|'Unsupported'
+} = {
+  'private': 'Private',
+  'first private': 'FirstPrivate',
+  'last private': 'LastPrivate',
+  'second to last private': 'Unsupported',
+  'dynamic private': 'Unsupported'
+};
+
+/**
+ * Operators which correspond to kinds of reduction.
+ */
+const reductions: { [kind: string]: Record<ParallelModel, string> } = {
+  Add: { OpenMP: '+', DVMH: 'sum' },
+  Mult: { OpenMP: '*', DVMH: 'product' },
+  Or: { OpenMP: '|', DVMH: 'or' },
+  And: { OpenMP: '&', DVMH: 'and' },
+  Xor: { OpenMP: '^', DVMH: 'xor' },
+  Max: { OpenMP: 'max', DVMH: 'max' },
+  Min: { OpenMP: 'min', DVMH: 'min' }
+};
+
+/**
+ * Return variables which should be mentioned in clauses of a directive which
+ * parallelizes a specified loop.
+ *
+ * Variables declared inside the loop and the induction variable of the loop
+ * are private implicitly, so they are not mentioned in clauses.
+ */
+export function loopClauses(tree: msg.AliasTree, loop: msg.Loop):
+    LoopClauses {
+  let clauses: LoopClauses = {
+    Private: [], FirstPrivate: [], LastPrivate: [], Reduction: {},
+    Unsupported: []
+  };
+  let add = (list: string[], name: string) => {
+    if (list.indexOf(name) < 0)
+      list.push(name);
+  };
+  for (let n of tree.Nodes) {
+    let memories = [
+      [n.SelfMemory || [], true], [n.CoveredMemory || [], false]
+    ] as [msg.MemoryLocation[], boolean][];
+    for (let [memory, isSelf] of memories)
+      for (let m of memory) {
+        if (!m.Object || !m.Object.Name)
+          continue;
+        let decl = m.Object.DeclLocation;
+        if (decl && decl.Line >= loop.StartLocation.Line &&
+            decl.Line <= loop.EndLocation.Line)
+          continue;
+        let traits = new Set(Object.keys(m.Traits || {}));
+        if (isSelf)
+          n.Traits.forEach(t => traits.add(t));
+        if (traits.has('induction') && (m.Locations || []).some(
+              l => l.Line == loop.StartLocation.Line))
+          continue;
+        let name = m.Object.Name;
+        for (let t of traits)
+          if (privateTraits[t] !== undefined)
+            add(clauses[privateTraits[t]], name);
+        if (traits.has('reduction')) {
+          let dptr = m.Traits ? m.Traits['reduction'] : undefined;
+          let kind = dptr && dptr.Kind ? dptr.Kind : '';
+          add(clauses.Reduction[kind] = clauses.Reduction[kind] || [], name);
+        }
+      }
+  }
+  let reduction = [].concat(...Object.keys(clauses.Reduction).map(
+    kind => clauses.Reduction[kind]));
+  clauses.Private = clauses.Private.filter(name =>
+    clauses.FirstPrivate.indexOf(name) < 0 &&
+    clauses.LastPrivate.indexOf(name) < 0 && reduction.indexOf(name) < 0 &&
+    clauses.Unsupported.indexOf(name) < 0);
+  return clauses;
+}
+
+/**
+ * Return directive which parallelizes a loop in a specified model.
+ *
+ * In case of errors (clauses are not supported in the model) this function
+ * throws exception.
+ */
+export function loopDirective(model: ParallelModel, clauses: LoopClauses):
+    string {
+  let operator = (kind: string) => {
+    if (reductions[kind] === undefined)
+      throw new Error(log.Parallel.reduction
+        .replace('{0}', clauses.Reduction[kind].join(', '))
+        .replace('{1}', model));
+    return reductions[kind][model];
+  };
+  if (clauses.Unsupported.length > 0)
+    throw new Error(log.Parallel.unsupported
+      .replace('{0}', clauses.Unsupported.join(', ')).replace('{1}', model));
+  let kinds = Object.keys(clauses.Reduction);
+  if (model === 'OpenMP') {
+    let directive = '#pragma omp parallel for';
+    if (clauses.Private.length > 0)
+      directive += ` private(${clauses.Private.join(', ')})`;
+    if (clauses.FirstPrivate.length > 0)
+      directive += ` firstprivate(${clauses.FirstPrivate.join(', ')})`;
+    if (clauses.LastPrivate.length > 0)
+      directive += ` lastprivate(${clauses.LastPrivate.join(', ')})`;
+    for (let kind of kinds)
+      directive +=
+        ` reduction(${operator(kind)}:${clauses.Reduction[kind].join(', ')})`;
+    return directive;
+  }
+  let unsupported = clauses.FirstPrivate.concat(clauses.LastPrivate);
+  if (unsupported.length > 0)
+    throw new Error(log.Parallel.unsupported
+      .replace('{0}', unsupported.join(', ')).replace('{1}', model));
+  let directive = '#pragma dvm parallel(1)';
+  if (clauses.Private.length > 0)
+    directive += ` private(${clauses.Private.join(', ')})`;
+  if (kinds.length > 0)
+    directive += ` reduction(${[].concat(...kinds.map(kind =>
+      clauses.Reduction[kind].map(name => `${operator(kind)}(${name})`)))
+      .join(', ')})`;
+  return directive;
+}
+
+/**
+ * Insert a directive before a specified loop. In case of DVMH the loop is
+ * also enclosed in a region.
+ *
+ * In case of errors (the loop header is not at the beginning of a line) this
+ * function throws exception.
+ */
+export function insertDirective(text: string, loop: msg.Loop,
+    model: ParallelModel, directive: string): string {
+  let lines = text.split(eol(text));
+  let start = loop.StartLocation.Line - 1;
+  let end = loop.EndLocation.Line - 1;
+  if (start < 0 || end >= lines.length ||
+      lines[start].substring(0, loop.StartLocation.Column - 1).trim())
+    throw new Error(log.Parallel.location.replace('{0}',
+      `${loop.StartLocation.Line}:${loop.StartLocation.Column}`));
+  let indent = lines[start].match(/^\s*/)[0];
+  if (model === 'DVMH') {
+    lines.splice(end + 1, 0, `${indent}}`);
+    lines.splice(start, 0, `${indent}#pragma dvm region`, `${indent}{`,
+      `${indent}${directive}`);
+  } else {
+    lines.splice(start, 0, `${indent}${directive}`);
+  }
+  return lines.join(eol(text));
+}
+
+/**
+ * Result of parallelization of a loop.
+ */
+export interface ParallelLoop {
+  project: Project;
+  title: string;
+
+  /**
+   * New content of a file which contains the loop.
+   */
+  changes: Map<string, string>;
+}
+
+/**
+ * Return a parallel loop which is specified in a query of a project uri
+ * ({FuncID, LoopID}) and a function which contains it.
+ *
+ * In case of errors this function throws exception.
+ */
+async function findParallelLoop(project: Project, query: any):
+    Promise<[msg.Function, msg.Loop]> {
+  let loopTreeState = project.providerState(
+    LoopTreeProvider.scheme) as LoopTreeProviderState;
+  let func = (loopTreeState.functions() || []).find(f => f.ID == query.FuncID);
+  let loop = func === undefined ? undefined :
+    (await loopTreeState.loops(project, func)).find(l => l.ID == query.LoopID);
+  if (loop === undefined)
+    throw new Error(log.Parallel.notFound);
+  if (loop.Traits.Parallel !== 'Yes')
+    throw new Error(log.Parallel.notParallel.replace('{0}', location(loop)));
+  return [func, loop];
+}
+
+function location(loop: msg.Loop): string {
+  return `${loop.StartLocation.Line}:${loop.StartLocation.Column}`;
+}
+
+/**
+ * Return directive which parallelizes a loop in a specified model, the alias
+ * tree of the loop is requested if it has not been received yet.
+ *
+ * In case of errors this function throws exception.
+ */
+async function buildDirective(project: Project, func: msg.Function,
+    loop: msg.Loop, model: ParallelModel): Promise<string> {
+  let aliasTreeState = project.providerState(
+    AliasTreeProvider.scheme) as AliasTreeProviderState;
+  let tree = await aliasTreeState.aliasTree(project, func.ID, loop.ID);
+  if (tree === undefined)
+    throw new Error(log.Parallel.noTraits.replace('{0}', location(loop)));
+  return loopDirective(model, loopClauses(tree, loop));
+}
+
+/**
+ * Parallelize a loop which is specified in a query of a project uri
+ * ({FuncID, LoopID, Model}), the user is asked to select a parallel
+ * programming model if it is not specified. Return `undefined` if the user
+ * cancels the selection.
+ *
+ * In case of errors this function throws exception.
+ */
+export async function parallelizeLoop(engine: ProjectEngine,
+    uri: vscode.Uri): Promise<ParallelLoop|undefined> {
+  let project = engine.project(uri);
+  if (project === undefined)
+    throw new Error(log.Parallel.noSession);
+  let query = JSON.parse(uri.query);
+  let [func, loop] = await findParallelLoop(project, query);
+  let model: ParallelModel = query.Model;
+  if (model === undefined) {
+    model = await vscode.window.showQuickPick(models,
+      { placeHolder: log.Parallel.select }) as ParallelModel;
+    if (model === undefined)
+      return undefined;
+  }
+  let fsPath = resolveLocation(project, loop.StartLocation).Path;
+  let text = insertDirective(currentText(fsPath), loop, model,
+    await buildDirective(project, func, loop, model));
+  return {
+    project,
+    title: log.Parallel.title.replace('{0}', model)
+      .replace('{1}', location(loop)),
+    changes: new Map([[fsPath, text]])
+  };
+}
+
+/**
+ * This proposes to insert or to copy OpenMP directive for a parallel loop
+ * if the cursor is at the loop header.
+ *
+ * Actions are proposed according to loop trees which have been already
+ * received, the directive is built when an action is executed, so alias
+ * trees are not requested while the cursor moves.
+ */
+class DirectiveActionProvider implements vscode.CodeActionProvider {
+  private _engine: ProjectEngine;
+
+  constructor(engine: ProjectEngine) { this._engine = engine; }
+
+  provideCodeActions(document: vscode.TextDocument,
+      range: vscode.Range): vscode.CodeAction[] {
+    let line = range.start.line + 1;
+    for (let project of this._engine.projects()) {
+      let fileState = project.providerState(
+        FileListProvider.scheme) as FileListProviderState;
+      let loopTreeState = project.providerState(
+        LoopTreeProvider.scheme) as LoopTreeProviderState;
+      if (!fileState.actual(new msg.FileList) ||
+          loopTreeState.functions() === undefined)
+        continue;
+      let func = loopTreeState.functions().find(f => f.User &&
+        f.StartLocation.Line <= line && f.EndLocation.Line >= line &&
+        resolveLocation(project, f.StartLocation).Path ===
+          document.uri.fsPath);
+      if (func === undefined)
+        continue;
+      let loop = (func.Loops || []).find(
+        l => l.StartLocation.Line == line && l.Traits.Parallel === 'Yes');
+      if (loop === undefined)
+        return [];
+      let uri = project.uri.with({
+        query: JSON.stringify({ FuncID: func.ID, LoopID: loop.ID })
+      });
+      let insert = new vscode.CodeAction(log.Parallel.insert,
+        vscode.CodeActionKind.QuickFix);
+      insert.command = {
+        command: 'tsar.loop.directive.insert',
+        title: insert.title,
+        arguments: [uri, document.uri, range.start.line]
+      };
+      let copy = new vscode.CodeAction(log.Parallel.copy,
+        vscode.CodeActionKind.QuickFix);
+      copy.command = {
+        command: 'tsar.loop.directive.copy',
+        title: copy.title,
+        arguments: [uri]
+      };
+      return [insert, copy];
+    }
+    return [];
+  }
+}
+
+/**
+ * Return OpenMP directive for a loop which is specified in a query of
+ * a project uri ({FuncID, LoopID}).
+ *
+ * In case of errors this function throws exception.
+ */
+async function openmpDirective(engine: ProjectEngine, uri: vscode.Uri):
+    Promise<string> {
+  let project = engine.project(uri);
+  if (project === undefined)
+    throw new Error(log.Parallel.noSession);
+  let [func, loop] = await findParallelLoop(project, JSON.parse(uri.query));
+  return buildDirective(project, func, loop, 'OpenMP');
+}
+
+export function registerProviders(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let insert = vscode.commands.registerCommand('tsar.loop.directive.insert',
+    async (uri: vscode.Uri, file: vscode.Uri, line: number) => {
+      try {
+        let directive = await openmpDirective(engine, uri);
+        let doc = await vscode.workspace.openTextDocument(file);
+        let indent = doc.lineAt(line).text.match(/^\s*/)[0];
+        let edit = new vscode.WorkspaceEdit;
+        edit.insert(file, new vscode.Position(line, 0),
+          `${indent}${directive}${doc.eol == vscode.EndOfLine.CRLF
+            ? '\r\n' : '\n'}`);
+        await vscode.workspace.applyEdit(edit);
+      }
+      catch (err) {
+        vscode.window.showErrorMessage(
+          `${log.Extension.displayName}: ${err.message}`);
+      }
+    });
+  let copy = vscode.commands.registerCommand('tsar.loop.directive.copy',
+    async (uri: vscode.Uri) => {
+      try {
+        await vscode.env.clipboard.writeText(
+          await openmpDirective(engine, uri));
+        vscode.window.showInformationMessage(
+          `${log.Extension.displayName}: ${log.Parallel.copied}`);
+      }
+      catch (err) {
+        vscode.window.showErrorMessage(
+          `${log.Extension.displayName}: ${err.message}`);
+      }
+    });
+  let actions = vscode.languages.registerCodeActionsProvider(
+    [{ scheme: 'file', language: 'c' }, { scheme: 'file', language: 'cpp' }],
+    new DirectiveActionProvider(engine),
+    { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] });
+  subscriptions.push(insert, copy, actions);
+}
@@ -11,9 +11,10 @@
 
 import * as vscode from 'vscode';
 import {headHtml, UpdateUriFunc, commandLink,
-  DisposableLikeList, isFunction} from './functions';
-import { gotoExpansionLocLink } from './fileList';
+  DisposableLikeList, escapeHtml, isFunction} from './functions';
+import { gotoExpansionLocLink, resolveLocation } from './fileList';
 import * as log from './log';
+import { isVisible, LoopFilter } from './loopFilter';
 import * as msg from './messages';
 import {Project, ProjectEngine} from './project';
 import {ProjectWebviewProviderState,
@@ -56,6 +57,20 @@ interface Data {
 };
 
 export class LoopTreeProviderState extends ProjectWebviewProviderState<LoopTreeProvider> {
+  private _filter: LoopFilter|undefined;
+
+  private _onDidChangeFilter = new vscode.EventEmitter<LoopFilter|undefined>();
+  readonly onDidChangeFilter = this._onDidChangeFilter.event;
+
+  /**
+   * Filter of functions and loops which is shared between views of a project.
+   */
+  get filter(): LoopFilter|undefined { return this._filter; }
+
+  set filter(filter: LoopFilter|undefined) {
+    this._filter = filter;
+    this._onDidChangeFilter.fire(filter);
+  }
 
   public functions() {
     return (this.data !== undefined)
@@ -63,6 +78,20 @@ export class LoopTreeProviderState extends ProjectWebviewProviderState<LoopTreeP
       : undefined;
   }
 
+  /**
+   * Return loops of a specified function, request them from the server if
+   * they have not been received yet.
+   */
+  async loops(project: Project, f: msg.Function): Promise<msg.Loop[]> {
+    if (f.Traits.Loops !== 'Yes' || f.Loops !== undefined && f.Loops.length > 0)
+      return f.Loops || [];
+    let request = new msg.LoopTree;
+    request.FunctionID = f.ID;
+    let looptree = await project.send<msg.LoopTree>(request, { notify: false });
+    f.Loops = looptree.Loops;
+    return f.Loops;
+  }
+
   actual(request: any): boolean {
     if (request instanceof msg.FunctionList)
       return this.data !== undefined;
@@ -155,6 +184,20 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
       body: '&#10167;',
       query: {Attr: []}
     };
+    let linkCallers = {
+      command: 'tsar.callers',
+      project: project,
+      title: log.Callers.build,
+      body: '&#10166;',
+      query: {}
+    };
+    let linkLoopNest = {
+      command: 'tsar.loop.nest',
+      project: project,
+      title: log.LoopNest.build,
+      body: '&#9635;',
+      query: {}
+    };
     let linkInOut = {
       command: 'tsar.callee.func',
       project: project,
@@ -176,6 +219,20 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
       body: '',
       query: {Attr: [msg.StatementAttr.Exit]}
     };
+    let linkBlockers = {
+      command: 'tsar.loop.blockers',
+      project: project,
+      title: log.Blockers.build,
+      body: '&minus;',
+      query: {}
+    };
+    let linkParallel = {
+      command: 'tsar.loop.parallel',
+      project: project,
+      title: log.Parallel.build,
+      body: '&#8649;',
+      query: {}
+    };
     let body = `
     <!doctype html>
     <html lang="en">
@@ -208,13 +265,33 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
         <div class="col-1">IO</div>
         <div class="col-1">Readonly</div>
         <div class="col-1">Unsafe CFG</div>
+        <div class="col-1">Parallelize</div>
+      </div>`;
+    if (state.filter !== undefined)
+      body += `
+      <div class="row py-2 border-bottom">
+        <div class="col">
+          ${log.Filter.active.replace('{0}', `<code>${escapeHtml(state.filter.text)}</code>`)}
+          ${commandLink({
+            command: 'tsar.loopTree.filter.clear',
+            project,
+            title: log.Filter.clear,
+            body: '&times;',
+            query: {}
+          })}
+        </div>
       </div>`;
     for (let func of funclst.Functions) {
       if (!func.User)
         continue;
+      let file = resolveLocation(project, func.StartLocation).Path;
+      if (!isVisible(state.filter, func, file))
+        continue;
       aliasTree.query['FuncID'] = func.ID;
       linkCallees.query['FuncID'] = func.ID;
       linkCallees.query['LoopID'] = 0;
+      linkCallers.query['FuncID'] = func.ID;
+      linkLoopNest.query['FuncID'] = func.ID;
       linkInOut.query['FuncID'] = func.ID;
       linkInOut.query['LoopID'] = 0;
       linkUnsafeCFG.query['FuncID'] = func.ID;
@@ -254,6 +331,8 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
           ${gotoExpansionLocLink(project, func.StartLocation)}
           &minus;${gotoExpansionLocLink(project, func.EndLocation)}
           ${func.Exit !== null ? commandLink(linkCallees) : ''}
+          ${commandLink(linkCallers)}
+          ${func.Traits.Loops == 'Yes' ? commandLink(linkLoopNest) : ''}
         </div>
         <div class="col-1">${this._checkTrait(func.Traits.Parallel)}</div>
         <div class="col-1"></div>
@@ -266,8 +345,10 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
         <div class="col-1">
           ${this._checkTrait(func.Traits.UnsafeCFG, func.Exit !== null ? linkUnsafeCFG : undefined)}
         </div>
+        <div class="col-1"></div>
       </div>`;
-      if (func.Traits.Loops == "No" || !func.Loops.length)
+      let loops = func.Loops.filter(l => isVisible(state.filter, func, file, l));
+      if (func.Traits.Loops == "No" || !loops.length)
         continue;
       body +=`
       <div class="collapse ${state.isSubtreeHidden(func) ? '' : 'show'}"
@@ -294,16 +375,20 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
         }())
       </script>`;
       let currentLevel = 1;
-      for (let idx = 0; idx < func.Loops.length; ++idx) {
-        let loop = func.Loops[idx];
+      for (let idx = 0; idx < loops.length; ++idx) {
+        let loop = loops[idx];
         aliasTree.query['LoopID'] = loop.ID;
         linkCallees.query['LoopID'] = loop.ID;
         linkInOut.query['LoopID'] = loop.ID;
         linkUnsafeCFG.query['LoopID'] = loop.ID;
         linkExit.query['LoopID'] = loop.ID;
+        linkParallel.query['FuncID'] = func.ID;
+        linkParallel.query['LoopID'] = loop.ID;
+        linkBlockers.query['FuncID'] = func.ID;
+        linkBlockers.query['LoopID'] = loop.ID;
         linkExit.body = loop.Exit === null ? '?' : loop.Exit.toString();
         if (loop.Level > currentLevel) {
-          let parentLoop = func.Loops[idx - 1];
+          let parentLoop = loops[idx - 1];
           body += `
           <div class="collapse ${state.isSubtreeHidden(parentLoop) ? '' : 'show'}"
                id="loopTree-${func.ID}-${parentLoop.ID}">`;
@@ -349,7 +434,7 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
                     ${loop.Traits.Parallel == 'Yes' ? 'table-row-success' : ''}">
           <div class="col-4 text-left border-right">
             ${'&emsp;'.repeat(loop.Level)}`;
-        if (idx < func.Loops.length - 1 && func.Loops[idx + 1].Level > loop.Level) {
+        if (idx < loops.length - 1 && loops[idx + 1].Level > loop.Level) {
           let isSubtreeHidden = state.isSubtreeHidden(loop);
           body += `
             <a id="collapse-loopTree-${func.ID}-${loop.ID}"
@@ -373,7 +458,8 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
             ${loop.Exit !== null ? commandLink(aliasTree) : ''}
           </div>
           <div class="col-1 ">
-            ${this._checkTrait(loop.Traits.Parallel)}
+            ${loop.Traits.Parallel == 'Yes' ? this._checkTrait(loop.Traits.Parallel)
+              : commandLink(linkBlockers)}
           </div>
           <div class="col-1">${this._checkTrait(loop.Traits.Canonical)}</div>
           <div class="col-1">${this._checkTrait(loop.Traits.Perfect)}</div>
@@ -387,6 +473,9 @@ export class LoopTreeProvider extends ProjectWebviewProvider {
             ${this._checkTrait(loop.Traits.UnsafeCFG,
                loop.Exit !== null ? linkUnsafeCFG : undefined)}
           </div>
+          <div class="col-1">
+            ${loop.Traits.Parallel == 'Yes' ? commandLink(linkParallel) : ''}
+          </div>
         </div>`;
       }
       body += '</div>'.repeat(currentLevel - 1);
@@ -108,12 +108,34 @@ export class Diagnostic {
   }
 }
 
+/**
+ * Compilation command for a single source file of a project.
+ */
+export interface CompileCommand {
+  /**
+   * Working directory of the compilation.
+   */
+  Directory: string;
+
+  /**
+   * Absolute path to the main translation unit source file.
+   */
+  File: string;
+
+  /**
+   * Compilation flags without the compiler name, output and input files.
+   */
+  Arguments: string[];
+}
+
 /**
 * Command line which is used to run a tool.
 *
 * This consists of the following elements:
 * - list of arguments which contains options and input data,
-* - specification of an input/output redirection.
+* - specification of an input/output redirection,
+* - per-file compilation commands if a project is configured with a help of
+*   compilation database.
 */
 export class CommandLine {
   Args: Arguments;
@@ -121,6 +143,7 @@ export class CommandLine {
   Input?: string;
   Output?: string;
   Error?: string;
+  Compilations?: CompileCommand[];
 
   constructor(exec: string) {
     this.Args = [exec];
@@ -144,6 +167,75 @@ export class CommandLine {
   }
 }
 
+/**
+ * Version of the protocol which is selected by the client to interact with
+ * the server (see protocol.ts).
+ */
+export class Protocol {
+  Version: number;
+
+  constructor(version: number) {
+    this.Version = version;
+  }
+
+  toJSON(): ProtocolJSON {
+    return Object.assign({name: Protocol.name}, this);
+  }
+
+  static fromJSON(json: ProtocolJSON|string): Protocol {
+    if (typeof json === 'string') {
+      return JSON.parse(json, Protocol.reviver);
+    } else {
+      let obj = Object.create(Protocol.prototype);
+      return Object.assign(obj, json);
+    }
+  }
+
+  static reviver(key: string, value: any): any {
+    return key === "" ? Protocol.fromJSON(value) : value;
+  }
+}
+
+/**
+ * Request to abort processing of a request with a specified identifier
+ * (see protocol.ts). The server does not answer to this request.
+ */
+export class Cancel {
+  RequestID: number;
+
+  constructor(id: number) {
+    this.RequestID = id;
+  }
+
+  toJSON(): CancelJSON {
+    return Object.assign({name: Cancel.name}, this);
+  }
+}
+
+/**
+ * Rejection of a request with a specified identifier (see protocol.ts).
+ */
+export class Reject {
+  RequestID: number;
+
+  toJSON(): RejectJSON {
+    return Object.assign({name: Reject.name}, this);
+  }
+
+  static fromJSON(json: RejectJSON|string): Reject {
+    if (typeof json === 'string') {
+      return JSON.parse(json, Reject.reviver);
+    } else {
+      let obj = Object.create(Reject.prototype);
+      return Object.assign(obj, json);
+    }
+  }
+
+  static reviver(key: string, value: any): any {
+    return key === "" ? Reject.fromJSON(value) : value;
+  }
+}
+
 /**
  * This represents statistic of traits explored in an analyzed project.
  */
@@ -464,6 +556,28 @@ export interface CommandLineJSON extends MessageJSON {
   Output?: string;
   Error?: string;
   Query?: string;
+  Compilations?: CompileCommand[];
+}
+
+/**
+ * JSON representation of a selected protocol version.
+ */
+export interface ProtocolJSON extends MessageJSON {
+  Version: number;
+}
+
+/**
+ * JSON representation of a request to abort processing of a request.
+ */
+export interface CancelJSON extends MessageJSON {
+  RequestID: number;
+}
+
+/**
+ * JSON representation of a rejection of a request.
+ */
+export interface RejectJSON extends MessageJSON {
+  RequestID: number;
 }
 
 /**
@@ -0,0 +1,323 @@
+//===--- preview.ts -------- Transformation Preview --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements preview of source-to-source transformations. Sources
+// of a project are copied to a scratch directory (.tsar/preview/<timestamp>)
+// and transformation runs on this copy. Then the transformed sources are
+// compared with the original ones in diff editors and the user decides
+// whether changes should be applied. Changes are applied as a workspace edit,
+// so they can be undone in editors.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { makeDirectory } from './functions';
+import * as log from './log';
+import { ProjectConfig, loadProjectConfig, resolveServer,
+  saveProjectConfig } from './projectConfig';
+
+/**
+ * Extensions of header files which are copied to a scratch directory
+ * together with sources, so transformation does not update original headers.
+ */
+const headers = ['.h', '.hh', '.hpp', '.hxx'];
+
+/**
+ * Copy of a project in a scratch directory.
+ */
+export interface ScratchProject {
+  /**
+   * Scratch directory.
+   */
+  directory: string;
+
+  /**
+   * Copy of a file which has been used to start analysis.
+   */
+  uri: vscode.Uri;
+
+  /**
+   * Map from copies of files to original files.
+   */
+  files: Map<string, string>;
+}
+
+/**
+ * Return headers which are located in a specified directory and its
+ * subdirectories, directories which names start with '.' (for example,
+ * the project-specific directory) are skipped.
+ */
+function findHeaders(dir: string): string[] {
+  let found: string[] = [];
+  for (let file of fs.readdirSync(dir)) {
+    let filePath = path.join(dir, file);
+    let stat = fs.statSync(filePath);
+    if (stat.isDirectory()) {
+      if (!file.startsWith('.'))
+        found.push(...findHeaders(filePath));
+    } else if (stat.isFile() && headers.indexOf(path.extname(file)) >= 0) {
+      found.push(filePath);
+    }
+  }
+  return found;
+}
+
+/**
+ * Return files which are included in a specified file with quoted includes
+ * and which are found in the directory of the file or in include paths.
+ */
+function findIncludes(file: string, includePaths: string[]): string[] {
+  let found: string[] = [];
+  let include = /^\s*#\s*include\s*"([^"]+)"/gm;
+  let text = fs.readFileSync(file, 'utf8');
+  let match: RegExpExecArray;
+  while ((match = include.exec(text)) !== null) {
+    let name = match[1];
+    let header = [path.dirname(file), ...includePaths]
+      .map(dir => path.resolve(dir, name)).find(h => fs.existsSync(h));
+    if (header !== undefined)
+      found.push(header);
+  }
+  return found;
+}
+
+/**
+ * Copy sources of a project which is started with a specified file to
+ * a scratch directory, return `undefined` if sources can not be copied, for
+ * example, if some of them are located outside the project directory.
+ *
+ * All headers from the project directory and its subdirectories are copied,
+ * so transformation can not update the original files. Hence, the preview
+ * is not possible if some include paths or included files are located outside
+ * the project directory because transformation may update them.
+ *
+ * Configuration of the project is also copied, relative include paths and
+ * the path to the analysis server are resolved against the original project
+ * directory, sources and include paths are redirected to the scratch
+ * directory.
+ */
+export function createScratchProject(uri: vscode.Uri):
+    ScratchProject|undefined {
+  let base = path.dirname(uri.fsPath);
+  let isOutside = (file: string) => path.relative(base, file).startsWith('..');
+  let config: ProjectConfig =
+    loadProjectConfig(path.join(base, log.Project.directory)) || {};
+  let sources = config.Sources && config.Sources.length > 0
+    ? config.Sources.map(s => path.resolve(base, s))
+    : [uri.fsPath];
+  if (sources.indexOf(uri.fsPath) < 0)
+    sources.push(uri.fsPath);
+  let includePaths = (config.IncludePaths || []).map(
+    i => path.resolve(base, i));
+  if (sources.some(isOutside) || includePaths.some(isOutside))
+    return undefined;
+  for (let header of findHeaders(base))
+    if (sources.indexOf(header) < 0)
+      sources.push(header);
+  if (sources.some(s => findIncludes(s, includePaths).some(isOutside)))
+    return undefined;
+  let directory = path.join(base, log.Project.directory,
+    log.Project.preview, `${Date.now()}`);
+  let toScratch = (file: string) =>
+    path.join(directory, path.relative(base, file));
+  let files = new Map<string, string>();
+  for (let source of sources) {
+    let copy = toScratch(source);
+    makeDirectory(path.dirname(copy));
+    fs.copyFileSync(source, copy);
+    files.set(copy, source);
+  }
+  let scratchConfig: ProjectConfig = Object.assign({}, config, {
+    IncludePaths: includePaths.map(toScratch)
+  });
+  if (config.Sources)
+    scratchConfig.Sources = config.Sources.map(
+      s => toScratch(path.resolve(base, s)));
+  if (config.AnalysisServer)
+    scratchConfig.AnalysisServer = resolveServer(base, config.AnalysisServer);
+  let prjDir = path.join(directory, log.Project.directory);
+  makeDirectory(prjDir);
+  saveProjectConfig(prjDir, scratchConfig);
+  return { directory, uri: vscode.Uri.file(toScratch(uri.fsPath)), files };
+}
+
+/**
+ * Remove a scratch directory, errors are ignored because some files may be
+ * still locked by the analysis server.
+ */
+export function removeScratchProject(scratch: ScratchProject) {
+  let remove = (dir: string) => {
+    for (let file of fs.readdirSync(dir)) {
+      let filePath = path.join(dir, file);
+      if (fs.statSync(filePath).isDirectory())
+        remove(filePath);
+      else
+        fs.unlinkSync(filePath);
+    }
+    fs.rmdirSync(dir);
+  };
+  try {
+    remove(scratch.directory);
+  }
+  catch (err) {
+    log.Log.logs[0].write(err.message);
+  }
+}
+
+/**
+ * Return the current content of a file, unsaved changes are also taken into
+ * account.
+ */
+export function currentText(fsPath: string): string {
+  let doc = vscode.workspace.textDocuments.find(
+    d => d.uri.scheme === 'file' && d.uri.fsPath === fsPath);
+  return doc !== undefined ? doc.getText() : fs.readFileSync(fsPath, 'utf8');
+}
+
+/**
+ * Replace content of files with a workspace edit, so changes can be undone
+ * in editors. Return `true` on success.
+ *
+ * @param changes Map from paths to files to their new content.
+ */
+export async function applyChanges(changes: Map<string, string>):
+    Promise<boolean> {
+  let edit = new vscode.WorkspaceEdit;
+  let docs: vscode.TextDocument[] = [];
+  for (let [fsPath, text] of changes) {
+    let doc = await vscode.workspace.openTextDocument(fsPath);
+    edit.replace(doc.uri, new vscode.Range(
+      doc.positionAt(0), doc.positionAt(doc.getText().length)), text);
+    docs.push(doc);
+  }
+  let applied = await vscode.workspace.applyEdit(edit);
+  // The analysis server reads sources from disk, so save them.
+  if (applied)
+    await Promise.all(docs.map(doc => doc.save()));
+  return applied;
+}
+
+/**
+ * Show difference between original and transformed sources and apply
+ * changes on demand.
+ *
+ * Only one preview is available at a time, a new preview discards
+ * the previous one.
+ */
+export class TransformationPreview
+    implements vscode.TextDocumentContentProvider {
+  static scheme = 'tsar-preview';
+
+  #disposables: vscode.Disposable[] = [];
+  #contents = new Map<string, string>();
+  #generation = 0;
+  #current: {
+    changes: Map<string, string>,
+    resolve: (applied: boolean) => void
+  }|undefined;
+
+  constructor() {
+    this.#disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(
+        TransformationPreview.scheme, this),
+      vscode.commands.registerCommand('tsar.transform.apply',
+        () => this.apply()),
+      vscode.commands.registerCommand('tsar.transform.discard',
+        () => this.discard()));
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.#contents.get(uri.toString());
+  }
+
+  /**
+   * Show changes of files and wait for the user decision, resolve to `true`
+   * if changes have been applied.
+   *
+   * @param title Description of a transformation.
+   * @param changes Map from paths to original files to their new content.
+   */
+  async show(title: string, changes: Map<string, string>): Promise<boolean> {
+    this.discard();
+    let modified = new Map<string, string>();
+    for (let [fsPath, text] of changes) {
+      let doc = await vscode.workspace.openTextDocument(fsPath);
+      if (doc.getText() !== text)
+        modified.set(fsPath, text);
+    }
+    if (modified.size == 0) {
+      vscode.window.showInformationMessage(
+        `${log.Extension.displayName} | ${title}: ${log.Preview.noChanges}`);
+      return false;
+    }
+    let applied = new Promise<boolean>(resolve => {
+      this.#current = { changes: modified, resolve };
+    });
+    let generation = ++this.#generation;
+    for (let [fsPath, text] of modified) {
+      let original = vscode.Uri.file(fsPath);
+      let transformed = original.with({
+        scheme: TransformationPreview.scheme,
+        query: `${generation}`
+      });
+      this.#contents.set(transformed.toString(), text);
+      await vscode.commands.executeCommand('vscode.diff', original,
+        transformed, log.Preview.title
+          .replace('{0}', path.basename(fsPath)).replace('{1}', title));
+    }
+    vscode.window.showInformationMessage(
+      `${log.Extension.displayName} | ${title}: ${log.Preview.ready}`,
+      log.Preview.apply, log.Preview.discard)
+    .then(item => item === log.Preview.apply ? this.apply() : this.discard());
+    return applied;
+  }
+
+  /**
+   * Apply changes which are currently previewed.
+   */
+  async apply() {
+    let current = this.#current;
+    if (current === undefined)
+      return;
+    this.#current = undefined;
+    let applied = await applyChanges(current.changes);
+    await this._close();
+    current.resolve(applied);
+  }
+
+  /**
+   * Discard changes which are currently previewed.
+   */
+  async discard() {
+    let current = this.#current;
+    if (current === undefined)
+      return;
+    this.#current = undefined;
+    await this._close();
+    current.resolve(false);
+  }
+
+  dispose() {
+    this.discard();
+    this.#disposables.forEach(d => d.dispose());
+    this.#disposables.length = 0;
+  }
+
+  /**
+   * Close diff editors which show the current preview.
+   */
+  private async _close() {
+    let isPreview = () => vscode.window.activeTextEditor !== undefined &&
+      vscode.window.activeTextEditor.document.uri.scheme ===
+        TransformationPreview.scheme;
+    for (let i = this.#contents.size; i > 0 && isPreview(); --i)
+      await vscode.commands.executeCommand(
+        'workbench.action.closeActiveEditor');
+    this.#contents.clear();
+  }
+}
@@ -0,0 +1,374 @@
+//===--- programCallGraph.ts ------ Program Call Graph ------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements provider to show call graph of the whole program. The
+// graph is built from callees of all user-defined functions. Nodes are colored
+// according to a selected trait of functions and recursive calls are
+// highlighted. It is possible to view callers or callees of a selected
+// function only and to collapse library functions into a single node.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { resolveLocation } from './fileList';
+import { DisposableLikeList, headHtml, UpdateUriFunc } from './functions';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { Project, ProjectEngine } from './project';
+import { ProjectWebviewProviderState,
+  ProjectWebviewProvider } from './webviewProvider';
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let showCallGraph = vscode.commands.registerCommand(
+    'tsar.call.graph.program', async (data?: vscode.Uri|Project) => {
+      let project = await engine.select(data);
+      if (project === undefined)
+        return;
+      let state = project.providerState(
+        ProgramCallGraphProvider.scheme) as ProgramCallGraphProviderState;
+      project.focus = state;
+      if (state.active)
+        state.provider.update(project);
+      else
+        state.active = true;
+    });
+  subscriptions.push(showCallGraph);
+}
+
+/**
+ * Call from one function to another one.
+ */
+export interface CallEdge {
+  From: number;
+  To: number;
+
+  /**
+   * Number of call statements.
+   */
+  Count: number;
+}
+
+/**
+ * Return calls between functions.
+ *
+ * @param calls Callees of functions, statements other than calls are ignored.
+ */
+export function callEdges(calls: Map<number, msg.CalleeFuncInfo[]>):
+    CallEdge[] {
+  let edges: CallEdge[] = [];
+  calls.forEach((callees, caller) => {
+    for (let callee of callees) {
+      if (callee.Kind != msg.StatementKind.Call || !callee.CalleeID)
+        continue;
+      let count = callee.StartLocation ? callee.StartLocation.length : 0;
+      let edge = edges.find(e => e.From == caller && e.To == callee.CalleeID);
+      if (edge !== undefined)
+        edge.Count += count;
+      else
+        edges.push({ From: caller, To: callee.CalleeID, Count: count });
+    }
+  });
+  return edges;
+}
+
+/**
+ * Return calls which belong to recursion cycles.
+ *
+ * A call belongs to a cycle if the caller and the callee are in the same
+ * strongly connected component of a call graph.
+ */
+export function recursiveEdges(edges: CallEdge[]): CallEdge[] {
+  let successors = new Map<number, number[]>();
+  for (let e of edges) {
+    if (!successors.has(e.From))
+      successors.set(e.From, []);
+    successors.get(e.From).push(e.To);
+  }
+  // Tarjan's algorithm to find strongly connected components.
+  let index = new Map<number, number>();
+  let lowlink = new Map<number, number>();
+  let component = new Map<number, number>();
+  let stack: number[] = [];
+  let visit = (v: number) => {
+    index.set(v, index.size);
+    lowlink.set(v, index.get(v));
+    stack.push(v);
+    for (let w of successors.get(v) || []) {
+      if (!index.has(w)) {
+        visit(w);
+        lowlink.set(v, Math.min(lowlink.get(v), lowlink.get(w)));
+      } else if (!component.has(w)) {
+        lowlink.set(v, Math.min(lowlink.get(v), index.get(w)));
+      }
+    }
+    if (lowlink.get(v) == index.get(v)) {
+      let w: number;
+      do {
+        w = stack.pop();
+        component.set(w, v);
+      } while (w != v);
+    }
+  };
+  for (let e of edges)
+    if (!index.has(e.From))
+      visit(e.From);
+  return edges.filter(e => component.get(e.From) === component.get(e.To));
+}
+
+/**
+ * Functions of a program and calls between them.
+ */
+export interface ProgramCalls {
+  Functions: msg.Function[];
+
+  /**
+   * Callees of user-defined functions.
+   */
+  Calls: Map<number, msg.CalleeFuncInfo[]>;
+}
+
+/**
+ * Collect callees of all user-defined functions.
+ *
+ * Lists of functions and callees are requested from the server. Providers
+ * are not notified about these requests.
+ */
+export async function collectCalls(project: Project): Promise<ProgramCalls> {
+  let loopTreeState = project.providerState(
+    LoopTreeProvider.scheme) as LoopTreeProviderState;
+  let functions = loopTreeState.functions();
+  if (functions === undefined)
+    functions = (await project.send<msg.FunctionList>(
+      new msg.FunctionList, { notify: false })).Functions;
+  let calls = new Map<number, msg.CalleeFuncInfo[]>();
+  for (let f of functions.filter(f => f.User)) {
+    let request = new msg.CalleeFuncList;
+    request.FuncID = f.ID;
+    request.LoopID = 0;
+    request.Attr = [];
+    calls.set(f.ID, (await project.send<msg.CalleeFuncList>(
+      request, { notify: false })).Functions);
+  }
+  return { Functions: functions, Calls: calls };
+}
+
+export class ProgramCallGraphProviderState extends
+    ProjectWebviewProviderState<ProgramCallGraphProvider> {
+  get active(): boolean { return super.active; }
+
+  set active(is: boolean) {
+    if (!is)
+      this._data = undefined;
+    super.active = is;
+  }
+
+  async onResponse(_response: any, project: Project):
+      Promise<ProgramCalls|undefined> {
+    if (this._data === undefined)
+      this._data = await collectCalls(project);
+    return this._data;
+  }
+}
+
+export class ProgramCallGraphProvider extends ProjectWebviewProvider {
+  static scheme = "tsar-program-callgraph";
+
+  public scheme(): string { return ProgramCallGraphProvider.scheme; }
+
+  public state(): ProgramCallGraphProviderState {
+    return new ProgramCallGraphProviderState(this);
+  }
+
+  protected _title(): string { return log.ProgramCallGraph.title; }
+
+  protected _needToHandle(_response: any): boolean { return false; }
+
+  protected _provideContent(project: Project, data: ProgramCalls,
+      asWebviewUri: UpdateUriFunc): string {
+    let state = project.providerState(
+      ProgramCallGraphProvider.scheme) as ProgramCallGraphProviderState;
+    state.panel.webview.onDidReceiveMessage(message => {
+      switch (message.command) {
+        case 'goto':
+          let f = data.Functions.find(f => f.ID == message.func);
+          if (f === undefined || !f.User)
+            break;
+          vscode.commands.executeCommand('tsar.open-project',
+            project.uri.with({
+              query: JSON.stringify(resolveLocation(project, f.StartLocation))
+            }));
+          break;
+      }
+    }, null, state.disposables);
+    let edges = callEdges(data.Calls);
+    let recursive = recursiveEdges(edges);
+    let called = new Set<number>();
+    for (let e of edges) {
+      called.add(e.From);
+      called.add(e.To);
+    }
+    let nodes = data.Functions.filter(f => f.User || called.has(f.ID)).map(
+      f => ({
+        id: f.ID,
+        label: f.Name,
+        user: f.User,
+        traits: f.Traits,
+        recursive: recursive.some(e => e.From == f.ID),
+        title: ['Parallel', 'Readonly', 'InOut', 'UnsafeCFG'].map(
+          t => `${t}: ${f.Traits[t] || '?'}`).join('<br>')
+      }));
+    let library = nodes.filter(n => !n.user).length;
+    let visEdges: any[] = edges.map((e, idx) => ({
+      id: idx,
+      from: e.From,
+      to: e.To,
+      label: e.Count > 1 ? `${e.Count}` : undefined,
+      recursive: recursive.indexOf(e) >= 0,
+      library: !nodes.find(n => n.id == e.To).user
+    }));
+    // Calls of library functions which replace calls of separate functions
+    // if library functions are collapsed.
+    let libraryCallers = new Set<number>();
+    for (let e of visEdges.filter(e => e.library))
+      libraryCallers.add(e.from);
+    libraryCallers.forEach(from => visEdges.push({
+      id: visEdges.length, from, to: '.library', group: true
+    }));
+    let traitOptions = ['Parallel', 'Readonly', 'InOut', 'UnsafeCFG'].map(
+      t => `<option value="${t}">${t}</option>`).join('');
+    return `
+      <!doctype html>
+      <html lang="en">
+        ${headHtml(asWebviewUri, {bootstrap: true, visNetwork: true})}
+        <body class="bg-light">
+          <div class="container-fluid pt-4" style="height:100%">
+            <h3>${this._title().replace('{0}', project.prjname)}</h3>
+            <div class="form-inline pb-2">
+              <label class="mr-2" for="colorBy">${log.ProgramCallGraph.colorBy}</label>
+              <select id="colorBy" class="form-control form-control-sm mr-3">
+                ${traitOptions}
+              </select>
+              <label class="mr-2" for="direction">${log.ProgramCallGraph.show}</label>
+              <select id="direction" class="form-control form-control-sm mr-3">
+                <option value="all">${log.ProgramCallGraph.all}</option>
+                <option value="callees">${log.ProgramCallGraph.callees}</option>
+                <option value="callers">${log.ProgramCallGraph.callers}</option>
+              </select>
+              <div class="form-check">
+                <input id="group" type="checkbox" class="form-check-input" checked>
+                <label class="form-check-label" for="group">
+                  ${log.ProgramCallGraph.group}
+                </label>
+              </div>
+            </div>
+            <p class="small">${log.ProgramCallGraph.hint}</p>
+            <div id="callGraph" style="height:80%"></div>
+          </div>
+          <script type="text/javascript">
+            var nodes = new vis.DataSet(${JSON.stringify(nodes)});
+            var edges = new vis.DataSet(${JSON.stringify(visEdges)});
+            ${library > 0 ? `nodes.add({
+              id: '.library',
+              label: '${log.ProgramCallGraph.library.replace('{0}', `${library}`)}',
+              user: false,
+              library: true
+            });` : ''}
+            var container = document.getElementById('callGraph');
+            var options = {
+              edges: {
+                arrows: {
+                  to: {
+                    enabled: true,
+                    type: "arrow"
+                  }
+                }
+              }
+            };
+            var network = new vis.Network(container,
+              { nodes: nodes, edges: edges }, options);
+            const vscode = acquireVsCodeApi();
+            const colorBy = document.getElementById('colorBy');
+            const direction = document.getElementById('direction');
+            const group = document.getElementById('group');
+            let selected = null;
+            // Traits which should be absent in a function to be highlighted
+            // with green.
+            const badTraits = ['InOut', 'UnsafeCFG'];
+            const color = n => {
+              if (!n.user)
+                return 'lightgrey';
+              const value = n.traits[colorBy.value];
+              if (value !== 'Yes' && value !== 'No')
+                return 'floralwhite';
+              return (value === 'Yes') !== badTraits.includes(colorBy.value)
+                ? 'lightgreen' : 'lightcoral';
+            };
+            const update = () => {
+              const isGrouped = group.checked;
+              const isVisibleEdge = e => isGrouped ? !e.library : !e.group;
+              const isVisibleNode = n =>
+                isGrouped ? n.user || n.library : !n.library;
+              // Collect functions which are reachable from the selected one.
+              let reachable = null;
+              if (selected !== null && direction.value !== 'all') {
+                reachable = new Set([selected]);
+                const queue = [selected];
+                const forward = direction.value === 'callees';
+                while (queue.length > 0) {
+                  const id = queue.shift();
+                  edges.forEach(e => {
+                    if (!isVisibleEdge(e))
+                      return;
+                    const [from, to] = forward ? [e.from, e.to] : [e.to, e.from];
+                    if (from === id && !reachable.has(to)) {
+                      reachable.add(to);
+                      queue.push(to);
+                    }
+                  });
+                }
+              }
+              nodes.update(nodes.map(n => ({
+                id: n.id,
+                hidden: !isVisibleNode(n) ||
+                  reachable !== null && !reachable.has(n.id),
+                color: {
+                  background: color(n),
+                  border: n.recursive ? 'red' : 'grey'
+                },
+                borderWidth: n.recursive ? 3 : 1
+              })));
+              edges.update(edges.map(e => ({
+                id: e.id,
+                hidden: !isVisibleEdge(e) || reachable !== null &&
+                  !(reachable.has(e.from) && reachable.has(e.to)),
+                color: { color: e.recursive ? 'red' : '#2B7CE9' },
+                width: e.recursive ? 3 : 1
+              })));
+            };
+            colorBy.addEventListener('change', update);
+            direction.addEventListener('change', update);
+            group.addEventListener('change', update);
+            network.on('click', event => {
+              const id = event.nodes && event.nodes.length == 1
+                ? event.nodes[0] : null;
+              if (id === selected)
+                return;
+              selected = id;
+              if (direction.value !== 'all')
+                update();
+            });
+            network.on('doubleClick', event => {
+              if (event.nodes && event.nodes.length == 1)
+                vscode.postMessage({ command: 'goto', func: event.nodes[0] });
+            });
+            update();
+          </script>
+        </body>
+      </html>`;
+  }
+}
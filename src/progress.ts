@@ -0,0 +1,55 @@
+//===--- progress.ts ---------- Progress Reporting ---------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements notification which shows progress of long requests,
+// for example analysis of a project or transformation. Statuses reported by
+// the server are shown as phases of processing. Cancellation aborts
+// the current request, so the analysis session remains open. If the protocol
+// does not allow to cancel requests the whole session is closed.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import * as log from './log';
+import { Project, ServerStatus } from './project';
+
+export type Progress = vscode.Progress<{ message?: string, increment?: number }>;
+
+/**
+ * Return description of a phase of request processing.
+ */
+function phase(status: ServerStatus): string {
+  switch (status.Status) {
+    case log.Server.receive: return log.Progress.receive;
+    case log.Server.send: return log.Progress.send;
+  }
+  return status.Message ? status.Message : log.Progress.data;
+}
+
+/**
+ * Show progress of a task which sends requests to the server.
+ *
+ * The notification is hidden when the task is finished.
+ */
+export function showProgress<T>(project: Project, title: string,
+    task: (progress: Progress) => Thenable<T>): Thenable<T> {
+  return vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    cancellable: true,
+    title: `${log.Extension.displayName} | ${project.prjname}: ${title}`,
+  }, (progress, token) => {
+    let listener = project.onDidChangeStatus(
+      status => progress.report({ message: phase(status) }));
+    token.onCancellationRequested(() => {
+      if (!project.cancel())
+        vscode.commands.executeCommand('tsar.stop', project.uri);
+    });
+    let finish = () => listener.dispose();
+    let result = task(progress);
+    result.then(finish, finish);
+    return result;
+  });
+}
@@ -13,15 +13,75 @@ import * as fs from 'fs';
 import * as net from 'net';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import {isCompilationDatabase, parseCompilationDatabase,
+  preprocessorFlags} from './compilationDatabase';
 import {establishVSEnvironment, establishLinuxEnvironment} from './functions';
 import {ProjectProvider} from './general';
 import * as log from './log';
 import * as msg from './messages';
+import {configPath, loadProjectConfig, ProjectConfig,
+  resolveServer} from './projectConfig';
+import {createFraming, DelimiterFraming, Framing, negotiate,
+  ProtocolVersion} from './protocol';
 import {createInterface, Interface} from 'readline';
 import * as which from 'which';
 
 type ToolT = {};
 
+/**
+ * Status which is reported by the server while a request is processed
+ * (see log.Server).
+ */
+export interface ServerStatus {
+  Status: string;
+  Message?: string;
+}
+
+/**
+ * Options which control how a request is sent to the server.
+ */
+export interface RequestOptions {
+  /**
+   * Time in milliseconds to wait for a response, 0 means without limits.
+   *
+   * If it is not specified 'advanced.requestTimeout' setting is used.
+   */
+  timeout?: number;
+
+  /**
+   * If it is `false` the response is not passed to providers, by default
+   * all registered providers are updated when the response is received.
+   */
+  notify?: boolean;
+}
+
+/**
+ * Request which waits for a response from the server.
+ */
+interface PendingRequest {
+  ID: number;
+  Response: string;
+  Notify: boolean;
+  resolve: (response: any) => void;
+  reject: (err: Error) => void;
+  timer?: NodeJS.Timer;
+
+  /**
+   * Whether the request is not waited for any more (it is only used with the
+   * legacy protocol to find a late response which should be dropped).
+   */
+  Expired?: boolean;
+}
+
+/**
+ * Return name of a response which is expected for a specified request.
+ */
+function responseName(request: any): string {
+  if (typeof request === 'string' || request instanceof msg.CommandLine)
+    return msg.Diagnostic.name;
+  return request.constructor.name;
+}
+
 /**
  * This controls all currently active projects evaluated by the extension.
  */
@@ -34,7 +94,8 @@ export class ProjectEngine {
     msg.FunctionList,
     msg.LoopTree,
     msg.CalleeFuncList,
-    msg.AliasTree
+    msg.AliasTree,
+    msg.Reject
   );
   private _context: vscode.ExtensionContext;
   private _providers = new Map<string, ProjectContentProvider>();
@@ -171,11 +232,39 @@ export class ProjectEngine {
     return this._projects.get(ProjectEngine._projectID(uri));
   }
 
+  /**
+   * Return list of all currently active projects.
+   */
+  projects(): Project[] {
+    return Array.from(this._projects.values());
+  }
+
+  /**
+   * Return project which is specified as an argument of a command.
+   *
+   * If nothing is specified the only active project is returned or the user
+   * is asked to select one of active projects.
+   */
+  async select(data?: vscode.Uri|Project): Promise<Project|undefined> {
+    if (data !== undefined)
+      return (data as Project).prjname !== undefined
+        ? data as Project
+        : this.project(data as vscode.Uri);
+    let projects = this.projects();
+    if (projects.length <= 1)
+      return projects[0];
+    let item = await vscode.window.showQuickPick(
+      projects.map(p => { return { label: p.prjname, project: p }}),
+      { placeHolder: log.Message.selectProject });
+    return item ? item.project : undefined;
+  }
+
   /**
    * Start processing of a specified project.
    *
-   * TODO (kaniandr@gmail.com): currently each project consists of a single
-   * file, update to support projects configured with a help of *.json file.
+   * A project consists of a single file or it is configured with a help of
+   * compilation database (compile_commands.json). In the latter case
+   * a specified document is a database.
    */
   start(doc: vscode.TextDocument, tool:ToolT): Thenable<Project> {
     return new Promise((resolve, reject) => {
@@ -198,10 +287,30 @@ export class ProjectEngine {
       if (check)
         return reject(check);
       let uri = doc.uri;
+      let compilations: msg.CompileCommand[];
+      if (isCompilationDatabase(uri)) {
+        try {
+          compilations = parseCompilationDatabase(uri.fsPath);
+        }
+        catch (err) {
+          return reject(err);
+        }
+      }
       let prjDir = this._makeProjectDir(path.dirname(uri.fsPath));
       if (typeof prjDir != 'string')
         return reject(prjDir);
-      this._startServer(uri, <string>prjDir, tool, this._environment, resolve, reject);
+      let config: ProjectConfig;
+      try {
+        config = loadProjectConfig(prjDir);
+      }
+      catch (err) {
+        return reject(err);
+      }
+      if (config)
+        log.Log.logs[0].write(
+          log.Message.configLoaded.replace('{0}', configPath(prjDir)));
+      this._startServer(uri, <string>prjDir, tool, compilations, config,
+        this._environment, resolve, reject);
       return undefined;
     })
   }
@@ -217,13 +326,55 @@ export class ProjectEngine {
   }
 
   /**
-   * Send response to run analysis or perform transformation.
+   * Send request to run analysis or perform transformation and wait for
+   * the diagnostic.
+   *
+   * If the project has a configuration file, options are taken from it,
+   * otherwise the user is asked to select options. Options which have been
+   * selected earlier in the session are reused.
+   *
+   * @param args Additional options of this run only.
+   */
+  async runTool(project: Project, query?: string, args: string[] = []):
+      Promise<msg.Diagnostic> {
+    let cl = await this._commandLine(project, query, args);
+    // Analysis may take a long time, so do not limit it.
+    return project.send<msg.Diagnostic>(cl, { timeout: 0 });
+  }
+
+  /**
+   * Build command line to run the tool for a specified project.
    */
-  async runTool(project: Project, query?: string) {
+  private async _commandLine(project: Project, query?: string,
+      args: string[] = []): Promise<msg.CommandLine> {
     let cl = new msg.CommandLine(log.Extension.displayName);
-    cl.Args[1] = project.uri.fsPath;
+    for (let source of project.sources)
+      cl.Args.push(source);
+    if (project.compilations) {
+      cl.Compilations = project.compilations;
+      for (let flag of preprocessorFlags(project.compilations))
+        cl.Args.push(flag);
+    }
+    let config = project.config;
+    if (config) {
+      let base = path.dirname(project.dirname);
+      if (config.IncludePaths)
+        for (let include of config.IncludePaths)
+          cl.Args.push(`-I${path.resolve(base, include)}`);
+      if (config.Defines)
+        for (let define of config.Defines)
+          cl.Args.push(`-D${define}`);
+    }
+    let optionStart = cl.Args.length;
     let tool:any = project.tool;
-    if (tool.options) {
+    if (config && config.Options) {
+      for (let option of config.Options)
+        cl.Args.push(option);
+    } else if (project.arguments !== undefined) {
+      // Options have been already selected in this session.
+      for (let option of project.options)
+        cl.Args.push(option);
+    } else if (tool.options) {
       let user_options = await vscode.window.showQuickPick(
         tool.options as any[],
         {
@@ -269,12 +420,20 @@ export class ProjectEngine {
         }
     }
     project.arguments = cl.Args;
+    project.options = [];
+    for (let idx = optionStart; idx < cl.Args.length; ++idx)
+      project.options.push(cl.Args[idx]);
+    // Options of a single run are not remembered for the session and they
+    // are not repeated if they have been already specified.
+    let specified = Array.from(cl.Args);
+    for (let arg of args)
+      if (specified.indexOf(arg) < 0)
+        cl.Args.push(arg);
     if (query)
       cl.Query = query;
     cl.Output = path.join(project.dirname, log.Project.output);
     cl.Error = path.join(project.dirname, log.Project.error);
-    project.send(cl);
-    return project;
+    return cl;
   }
 
   /**
@@ -301,7 +460,8 @@ export class ProjectEngine {
     if (doc.isUntitled)
       errors.push(
         new Error(log.Error.untitled.replace('{0}', uri.fsPath)));
-    if (!log.Extension.langauges[doc.languageId])
+    if (!isCompilationDatabase(uri) &&
+        !log.Extension.langauges[doc.languageId])
       errors.push(
         new Error(log.Error.language.replace('{0}', uri.fsPath)));
     return (errors.length > 0) ? errors : undefined;
@@ -335,17 +495,23 @@ export class ProjectEngine {
    * and evaluated as internal errors.
    * Function _onResponse() will be set as listener for responses from server.
    *
+   * @param compilations Compilation commands for project sources if
+   *  the project is configured with a help of compilation database.
+   * @param config Project configuration if it is available.
    * @param env This parameter is used to specified environment of server
    *  execution.
    */
   private _startServer(uri: vscode.Uri, prjDir: string,
-      tool: ToolT, env: any, resolve: any, reject: any) {
+      tool: ToolT, compilations: msg.CompileCommand[]|undefined,
+      config: ProjectConfig|undefined, env: any, resolve: any, reject: any) {
     let server: child_process.ChildProcess;
     let userConfig = vscode.workspace.getConfiguration(log.Extension.id);
-    let pathToServer = which.sync(
-      userConfig.get('advanced.analysisServer'), { nothrow: true });
+    let serverName: string = config && config.AnalysisServer
+      ? resolveServer(path.dirname(prjDir), config.AnalysisServer)
+      : userConfig.get('advanced.analysisServer');
+    let pathToServer = which.sync(serverName, { nothrow: true });
     if (!pathToServer) {
-      reject(new Error(log.Error.serverNotFound.replace('{0}', 'tsar-server')));
+      reject(new Error(log.Error.serverNotFound.replace('{0}', serverName)));
       return;
     }
     // TSAR Server uses signal processing to flush session log on termination.
@@ -365,6 +531,7 @@ export class ProjectEngine {
     // do not move project inside 'data/message' event listener
     // it must be shared between all messages evaluation
     let project: Project;
+    let version = ProtocolVersion.Delimiter;
     let onServerData = (raw: string) => {
       let client: net.Socket;
       try {
@@ -374,14 +541,24 @@ export class ProjectEngine {
             throw new Error(log.Error.serverVersion);
           log.Log.logs[0].write(
             log.Message.serverVersion.replace('{0}', data['TSARVersion']));
+          version = negotiate(data['ProtocolVersions']);
+          log.Log.logs[0].write(
+            log.Message.protocolVersion.replace('{0}', `${version}`));
         } else if (data['Status'] === log.Server.listening) {
           log.Log.logs[0].write(log.Message.listening);
           let addr: any = {
             port: data['ServerPort'],
             host: data['ServerAddress'],
           };
-          client = net.connect(addr, () => {client.setEncoding('utf8')});
-          project = new Project(uri, prjDir, tool, client, server);
+          client = net.connect(addr);
+          // The selected version of the protocol is sent in the legacy format
+          // before any other messages.
+          if (version !== ProtocolVersion.Delimiter)
+            client.write(new DelimiterFraming().encode(
+              JSON.stringify(new msg.Protocol(version))));
+          project = new Project(uri, prjDir, tool, compilations, client, server,
+            createFraming(version));
+          project.config = config;
           this._context.subscriptions.push(project);
           for (let scheme in this._providers) {
             let provider= this._providers[scheme];
@@ -391,9 +568,6 @@ export class ProjectEngine {
           }
           this._projects.set(ProjectEngine._projectID(uri), project);
           client.on('error', (err) => {this._internalError(err)});
-          client.on('data', (data:string) => {
-            log.Log.logs[0].write(log.Message.server.replace('{0}', data));
-          });
           client.on('data', this._onResponse.bind(this, project, client));
         } else if (data['Status'] === log.Server.connection) {
           log.Log.logs[0].write(log.Message.connection
@@ -409,10 +583,13 @@ export class ProjectEngine {
             throw new Error(log.Error.internal);
         } else if (data['Status'] === log.Server.close ||
                    data['Status'] === log.Server.send ||
-                   data['Status'] === log.Server.receive) {
+                   data['Status'] === log.Server.receive ||
+                   data['Status'] === log.Server.data) {
           log.Log.logs[0].write(log.Message.serverState
             .replace('{0}', data['Status'])
             .replace('{1}', data['Message']));
+          if (project !== undefined && data['Status'] !== log.Server.close)
+            project.changeStatus(data);
         } else {
           throw new Error(log.Error.internal);
         }
@@ -439,32 +616,27 @@ export class ProjectEngine {
   }
 
   /**
-   * Evaluate response received from the server.
+   * Evaluate chunk of responses received from the server.
    */
-  private _onResponse(project: Project, client: net.Socket, response: string) {
+  private _onResponse(project: Project, client: net.Socket, chunk: Buffer) {
     try {
-      let array = response.split(log.Project.delimiter);
-      if (array[array.length - 1] == '')
-        array.pop(); // ignore the last empty substring
-      if (array.length == 0)
-        return;
-      if (response.substr(response.length - log.Project.delimiter.length) != log.Project.delimiter) {
-        if (array.length == 1) {
-          project.spliceRawResponse(array[0]);
-          return;
+      for (let data of project.receive(chunk)) {
+        log.Log.logs[0].write(log.Message.server.replace('{0}', data));
+        let obj = data === 'REJECT' ? undefined : this._parser.fromJSON(data);
+        if (data === 'REJECT' || obj instanceof msg.Reject) {
+          // Rejection of a request which is not waited for a response is
+          // an unexpected situation.
+          let notify = project.reject(new Error(log.Error.rejected),
+            obj && obj.RequestID);
+          if (notify === undefined)
+            throw new Error(log.Error.rejected);
+          if (notify)
+            this._internalError(new Error(log.Error.rejected));
+          continue;
         }
-        array[0] = project.extractRawResponse() + array[0];
-        project.spliceRawResponse(array.pop());
-      } else {
-        array[0] = project.extractRawResponse() + array[0];
-      }
-      for (let data of array) {
-        if (data === 'REJECT')
-          throw new Error(log.Error.rejected);
-        let obj = this._parser.fromJSON(data);
         if (!obj)
           throw new Error(log.Error.unknownResponse.replace('{0}', data));
-        project.update(obj);
+        project.dispatch(obj);
         if (obj instanceof msg.Diagnostic) {
           // Do not invoke client.end() here because it prevents showing errors
           // in output channel project.output.
@@ -474,7 +646,6 @@ export class ProjectEngine {
               this._diagnostic(project, obj);
               break;
           }
-          return;
         }
       }
     }
@@ -500,22 +671,27 @@ export class ProjectEngine {
 
   /**
    * Show diagnostics to a user.
+   *
+   * Errors and warnings are published to the Problems panel
+   * (see diagnostics.ts), so only the status of a project is shown here.
    */
   private _diagnostic(project: Project, diag: msg.Diagnostic) {
     switch (diag.Status) {
       case msg.Status.Error:
       case msg.Status.Invalid:
         vscode.window.showErrorMessage(
-          `${log.Extension.displayName} | ${project.prjname}: ${log.Error.general}`);
+          `${log.Extension.displayName} | ${project.prjname}: ${log.Error.general}`,
+          log.Problems.showProblems)
+        .then(item => {
+          if (item === log.Problems.showProblems)
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        });
         break;
       case msg.Status.Success:
         vscode.window.showInformationMessage(
           `${log.Extension.displayName} | ${project.prjname}: ${log.Message.active.replace('{0}', project.prjname)}`);
         break;
     }
-    for (let err in diag.Error)
-      vscode.window.showErrorMessage(
-        `${log.Extension.displayName} | ${project.prjname}: ${diag.Error[err]}`);
     if (diag.Terminal) {
       project.output.appendLine(diag.Terminal);
       project.output.show(true);
@@ -621,7 +797,11 @@ export class Project {
   private _prjDir: string;
   private _client: net.Socket;
   private _server: child_process.ChildProcess;
-  private _rawResponse = '';
+  private _framing: Framing;
+  private _pending: PendingRequest[] = [];
+  private _nextRequestID = 1;
+  private _cancelled = new Set<number>();
+  private _onDidChangeStatus = new vscode.EventEmitter<ServerStatus>();
   private _responses = [];
   private _newResponse = 0;
   private _providers = new Map<string, ProjectContentProviderState>();
@@ -629,9 +809,25 @@ export class Project {
   private _disposable: vscode.Disposable;
   private _isDisposed = false;
   private _tool: ToolT;
+  private _compilations: msg.CompileCommand[]|undefined;
+
+  /**
+   * Fired when the server reports its status while a request is processed.
+   */
+  readonly onDidChangeStatus = this._onDidChangeStatus.event;
 
   public arguments: msg.Arguments;
 
+  /**
+   * Analysis options which have been used to run the tool.
+   */
+  public options: string[] = [];
+
+  /**
+   * Project configuration (.tsar/project.json) if it is available.
+   */
+  public config: ProjectConfig|undefined;
+
   public focus: ProjectContentProviderState;
 
   /**
@@ -640,12 +836,20 @@ export class Project {
    * @param projectUri Unique identifier of a project.
    * @param projectDir Basename of a directory which will contain project
    * internal data (logs and etc.), for example .tsar.
+   * @param compilations Compilation commands for each project source if
+   * the project is configured with a help of compilation database.
    * @param client Socket to interconnect with TSAR analyzer.
    * @param server A standalone process where TSAR analyzer is running.
+   * @param framing Framing of messages according to the protocol which has
+   * been negotiated with the server.
    */
   constructor(projectUri: vscode.Uri, projectDir: string, tool: {},
-      client: net.Socket, server: child_process.ChildProcess) {
+      compilations: msg.CompileCommand[]|undefined,
+      client: net.Socket, server: child_process.ChildProcess,
+      framing: Framing) {
+    this._framing = framing;
     this._prjUri = projectUri;
+    this._compilations = compilations;
     this._prjDir = projectDir;
     this._client = client;
     this._server = server;
@@ -660,6 +864,29 @@ export class Project {
    */
   get tool(): ToolT { return this._tool; }
 
+  /**
+   * Return compilation commands if the project is configured with a help of
+   * compilation database.
+   */
+  get compilations(): msg.CompileCommand[]|undefined {
+    return this._compilations;
+  }
+
+  /**
+   * Return list of source files in the project.
+   *
+   * Sources are taken from a compilation database or from a project
+   * configuration if it lists sources explicitly.
+   */
+  get sources(): string[] {
+    if (this._compilations !== undefined)
+      return this._compilations.map(c => c.File);
+    if (this.config && this.config.Sources && this.config.Sources.length > 0)
+      return this.config.Sources.map(
+        s => path.resolve(path.dirname(this._prjDir), s));
+    return [this._prjUri.fsPath];
+  }
+
   /**
    * Dispose project and its data (sockets, processes, windows).
    */
@@ -669,6 +896,12 @@ export class Project {
     this._providers.forEach(state => {state.provider.clear(this)});
     this._isDisposed = true;
     this._providers.clear();
+    for (let request of this._pending.splice(0)) {
+      clearTimeout(request.timer);
+      request.reject(new Error(log.Error.closed.replace('{0}', request.Response)));
+    }
+    this._cancelled.clear();
+    this._onDidChangeStatus.dispose();
     this._output.hide();
     this._client.destroy();
     this._server.kill();
@@ -677,13 +910,146 @@ export class Project {
 
   /**
    * Send request to a server.
+   *
+   * The returned promise is resolved with a response to the request or it is
+   * rejected if the server rejects the request or does not answer in time.
+   * Requests are sent one by one, so there is no need to wait for the response
+   * before the next request is sent.
    */
-  send(request: any) {
-    let requestString = JSON.stringify(request) + log.Project.delimiter;
+  send<T = any>(request: any, options: RequestOptions = {}): Promise<T> {
+    let timeout = options.timeout;
+    if (timeout === undefined) {
+      let userConfig = vscode.workspace.getConfiguration(log.Extension.id);
+      timeout = userConfig.get('advanced.requestTimeout', 0);
+    }
+    let pending: PendingRequest;
+    let promise = new Promise<T>((resolve, reject) => {
+      pending = {
+        ID: this._nextRequestID++,
+        Response: responseName(request),
+        Notify: options.notify !== false,
+        resolve: resolve,
+        reject: reject
+      };
+    });
+    // Legacy protocol does not allow to add identifiers to requests.
+    let json = typeof request === 'string' ||
+        this._framing.version === ProtocolVersion.Delimiter
+      ? request
+      : Object.assign({}, request.toJSON ? request.toJSON() : request,
+          { RequestID: pending.ID });
+    let requestString = JSON.stringify(json);
     log.Log.logs[0].write(log.Message.client.replace('{0}', requestString));
-    this._client.write(requestString)
+    this._pending.push(pending);
+    if (timeout > 0)
+      pending.timer = setTimeout(() => {
+        let idx = this._pending.indexOf(pending);
+        if (idx < 0)
+          return;
+        // The server answers requests without identifiers one by one, so
+        // the request remains in the queue until the late response arrives.
+        // Otherwise, it would be taken for the response to the next request.
+        if (this._framing.version === ProtocolVersion.Delimiter)
+          pending.Expired = true;
+        else
+          this._cancelled.add(this._pending.splice(idx, 1)[0].ID);
+        pending.reject(new Error(log.Error.timeout
+          .replace('{0}', requestString).replace('{1}', `${timeout}`)));
+      }, timeout);
+    this._client.write(this._framing.encode(requestString));
+    // Errors are logged to be visible if the caller does not wait for
+    // the response.
+    promise.catch(err => log.Log.logs[0].write(err.message));
     /*if (!this._client.write(requestString))
       this._client.once('drain', () => {this.send(request)});*/
+    return promise;
+  }
+
+  /**
+   * Evaluate a response received from the server.
+   *
+   * Registered providers are updated if it is necessary and then a request
+   * which waits for this response is resolved.
+   */
+  dispatch(response: any) {
+    let idx = -1;
+    // Response to a cancelled or timed out request is not expected any more.
+    if (this._cancelled.delete(response.RequestID))
+      return;
+    if (response.RequestID !== undefined) {
+      idx = this._pending.findIndex(r => r.ID === response.RequestID);
+      delete response.RequestID;
+    } else {
+      let name = response.constructor.name;
+      idx = this._pending.findIndex(r => r.Response === name);
+    }
+    let pending = idx >= 0 ? this._pending.splice(idx, 1)[0] : undefined;
+    if (pending && pending.Expired)
+      return;
+    if (!pending || pending.Notify)
+      this.update(response);
+    if (pending) {
+      clearTimeout(pending.timer);
+      pending.resolve(response);
+    }
+  }
+
+  /**
+   * Reject a request with a specified identifier. The legacy protocol does
+   * not allow to add identifiers to requests, so the oldest request which
+   * waits for a response is rejected.
+   *
+   * Return `undefined` if there is no such request, otherwise return `true`
+   * if the request expects that providers would be notified about
+   * the response.
+   */
+  reject(err: Error, id?: number): boolean|undefined {
+    // Rejection of a cancelled or timed out request is not expected any more.
+    if (this._cancelled.delete(id))
+      return false;
+    let idx = -1;
+    if (id !== undefined)
+      idx = this._pending.findIndex(r => r.ID === id);
+    else if (this._framing.version === ProtocolVersion.Delimiter)
+      idx = 0;
+    let pending = idx >= 0 ? this._pending.splice(idx, 1)[0] : undefined;
+    if (!pending)
+      return undefined;
+    if (pending.Expired)
+      return false;
+    clearTimeout(pending.timer);
+    pending.reject(err);
+    return pending.Notify;
+  }
+
+  /**
+   * Abort processing of the current request (the oldest request which waits
+   * for a response), the request is rejected.
+   *
+   * Return `false` if the protocol does not allow to cancel requests,
+   * the session should be closed in this case.
+   */
+  cancel(): boolean {
+    if (this._framing.version === ProtocolVersion.Delimiter)
+      return false;
+    let pending = this._pending.shift();
+    if (!pending)
+      return true;
+    clearTimeout(pending.timer);
+    this._cancelled.add(pending.ID);
+    let requestString = JSON.stringify(new msg.Cancel(pending.ID));
+    log.Log.logs[0].write(log.Message.client.replace('{0}', requestString));
+    this._client.write(this._framing.encode(requestString));
+    pending.reject(
+      new Error(log.Error.cancelled.replace('{0}', pending.Response)));
+    return true;
+  }
+
+  /**
+   * Notify listeners about a status of the server.
+   */
+  changeStatus(status: ServerStatus) {
+    this._onDidChangeStatus.fire(status);
   }
 
   /**
@@ -740,25 +1106,17 @@ export class Project {
   }
 
   /**
-   * Write chunk to the end of a raw response buffer.
+   * Decode chunk of data received from the server and return complete
+   * messages.
    *
    * If a size of response exceeds the size of internal buffer
    * which is used to exchange data between client and server,
    * the entire response is split into chunks. Then the client
-   * subsequently receives this chunks. It may use this method
-   * to merge these chunks and to store the result in a buffer.
+   * subsequently receives this chunks. Incomplete messages are stored in
+   * a buffer until the rest of data is received.
    */
-  spliceRawResponse(chunk: string) {
-    this._rawResponse += chunk;
-  }
-
-  /**
-   * Clear the raw response buffer and return its value.
-   */
-  extractRawResponse() : string {
-    let tmp = this._rawResponse;
-    this._rawResponse = '';
-    return tmp;
+  receive(chunk: Buffer): string[] {
+    return this._framing.decode(chunk);
   }
 
   /**
@@ -779,8 +1137,15 @@ export class Project {
 
   /**
    * Return project name.
+   *
+   * Name of a project configured with a help of compilation database is
+   * a name of the directory which contains the database.
    */
-  get prjname(): string { return path.basename(this._prjUri.fsPath); }
+  get prjname(): string {
+    return isCompilationDatabase(this._prjUri)
+      ? path.basename(path.dirname(this._prjUri.fsPath))
+      : path.basename(this._prjUri.fsPath);
+  }
 
   /**
    * Return the first response which has not been evaluated yet, to mark that
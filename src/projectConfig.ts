@@ -0,0 +1,158 @@
+//===--- projectConfig.ts ------ Project Configuration ------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements access to a project configuration file which is stored
+// in a project-specific directory (.tsar/project.json). The configuration
+// describes sources, preprocessor settings and options which are used to
+// analyze a project, so analysis session can be started without prompts.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DisposableLikeList } from './functions';
+import * as log from './log';
+import { Project, ProjectEngine } from './project';
+
+/**
+ * Content of a project configuration file.
+ *
+ * All relative paths are resolved against the directory which contains
+ * the project-specific directory.
+ */
+export interface ProjectConfig {
+  /**
+   * List of sources which form the project.
+   */
+  Sources?: string[];
+
+  /**
+   * List of directories to look for header files.
+   */
+  IncludePaths?: string[];
+
+  /**
+   * List of macro definitions in the form NAME or NAME=VALUE.
+   */
+  Defines?: string[];
+
+  /**
+   * List of analysis options (see tools.ts).
+   */
+  Options?: string[];
+
+  /**
+   * Path to the analysis server executable.
+   */
+  AnalysisServer?: string;
+
+  /**
+   * Named sequences of transformations which are executed in a single
+   * analysis session. Each step is a TSAR option (see tools.ts) or a name
+   * of a transformation command.
+   */
+  Pipelines?: { [name: string]: string[] };
+}
+
+/**
+ * Return path to the project configuration file.
+ *
+ * @param prjDir Path to the project-specific directory, for example .tsar.
+ */
+export function configPath(prjDir: string): string {
+  return path.join(prjDir, log.Project.config);
+}
+
+/**
+ * Load project configuration from a specified project-specific directory,
+ * returns `undefined` if configuration does not exist.
+ *
+ * In case of errors this function throws exception.
+ */
+export function loadProjectConfig(prjDir: string): ProjectConfig|undefined {
+  let configFile = configPath(prjDir);
+  if (!fs.existsSync(configFile))
+    return undefined;
+  let config: ProjectConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+  }
+  catch (err) {
+    throw new Error(log.Error.projectConfig
+      .replace('{0}', configFile).replace('{1}', err.message));
+  }
+  let isStringList = (list: any) =>
+    list === undefined ||
+    Array.isArray(list) && list.every(item => typeof item === 'string');
+  if (typeof config !== 'object' || config === null ||
+      !isStringList(config.Sources) || !isStringList(config.IncludePaths) ||
+      !isStringList(config.Defines) || !isStringList(config.Options) ||
+      config.AnalysisServer !== undefined &&
+      typeof config.AnalysisServer !== 'string' ||
+      config.Pipelines !== undefined &&
+      (typeof config.Pipelines !== 'object' || config.Pipelines === null ||
+       !Object.keys(config.Pipelines).every(
+         name => Array.isArray(config.Pipelines[name]) &&
+           isStringList(config.Pipelines[name]))))
+    throw new Error(log.Error.projectConfig
+      .replace('{0}', configFile).replace('{1}', log.Error.configFormat));
+  return config;
+}
+
+/**
+ * Write project configuration to a specified project-specific directory.
+ */
+export function saveProjectConfig(prjDir: string, config: ProjectConfig) {
+  fs.writeFileSync(configPath(prjDir), JSON.stringify(config, null, 2));
+}
+
+/**
+ * Return path to the analysis server which is specified in a project
+ * configuration.
+ *
+ * A path is resolved against a specified directory only if it contains
+ * a directory separator, otherwise it is a name to search in the system PATH.
+ */
+export function resolveServer(base: string, server: string): string {
+  return /[\\/]/.test(server) ? path.resolve(base, server) : server;
+}
+
+/**
+ * Build configuration which allows to reproduce the current analysis
+ * session of a specified project.
+ */
+function currentConfig(project: Project): ProjectConfig {
+  let base = path.dirname(project.dirname);
+  let config: ProjectConfig = Object.assign({}, project.config);
+  if (!project.compilations)
+    config.Sources = project.sources.map(s => path.relative(base, s));
+  config.Options = project.options.slice();
+  return config;
+}
+
+export function registerCommands(engine: ProjectEngine,
+    subscriptions: DisposableLikeList) {
+  let save = vscode.commands.registerCommand('tsar.config.save',
+    async (data?: vscode.Uri|Project) => {
+      let project = await engine.select(data);
+      if (project === undefined)
+        return;
+      try {
+        let config = currentConfig(project);
+        saveProjectConfig(project.dirname, config);
+        project.config = config;
+        vscode.window.showInformationMessage(
+          `${log.Extension.displayName} | ${project.prjname}: ` +
+          log.Message.configSaved.replace('{0}', configPath(project.dirname)));
+      }
+      catch (err) {
+        vscode.window.showErrorMessage(
+          `${log.Extension.displayName} | ${project.prjname}: ${err.message}`);
+      }
+    });
+  subscriptions.push(save);
+}
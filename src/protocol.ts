@@ -0,0 +1,190 @@
+//===--- protocol.ts ----------- Message Framing ------------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+//===----------------------------------------------------------------------===//
+//
+// This implements framing of messages which are exchanged between the client
+// and an analysis server through a socket. The following versions of
+// the protocol are supported:
+// - 1 (Delimiter), each message is followed by log.Project.delimiter. This is
+//   a legacy protocol, messages must not contain delimiter in any string.
+// - 2 (LengthPrefix), each message is prefixed with its length in bytes
+//   (4 bytes, big-endian unsigned integer), the message is encoded in UTF-8.
+//
+// Server announces supported versions in the 'start' status (ProtocolVersions
+// property). If version 1 is not selected, the client sends Protocol message
+// with the selected version as the first message encoded according to
+// the version 1. Then both sides switch to the selected version. If the server
+// does not announce any versions, version 1 is used.
+//
+// Since version 2 each request contains RequestID property and the server
+// adds the same property to the response, so responses can be correlated with
+// requests. Otherwise, a response is correlated with the oldest request which
+// expects a response of the same kind.
+//
+// Since version 2 the client may also send Cancel message which contains
+// identifier of a request (RequestID) to abort its processing. The server does
+// not answer to Cancel, it answers to the aborted request as usual and
+// the client ignores this answer. The analysis session remains open.
+//
+// If the server can not answer to a request it sends 'REJECT' string. Since
+// version 2 the server sends Reject message with identifier of the rejected
+// request (RequestID) instead, so the string is used in version 1 only and
+// it rejects the oldest request which waits for a response.
+//
+// Do not use here 'vscode' module, only standard Node.js modules can be used.
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as log from './log';
+
+export enum ProtocolVersion { Delimiter = 1, LengthPrefix = 2 };
+
+/**
+ * List of supported versions in order of preference.
+ */
+export const supportedVersions =
+  [ProtocolVersion.LengthPrefix, ProtocolVersion.Delimiter];
+
+/**
+ * This splits a stream of bytes into messages and encodes messages to send.
+ *
+ * Received chunks should be pushed into a framing with push() method, then
+ * complete messages can be extracted one by one with next() method.
+ */
+export abstract class Framing {
+  protected _buffer = Buffer.alloc(0);
+
+  /**
+   * Version of the protocol which is implemented.
+   */
+  abstract readonly version: ProtocolVersion;
+
+  /**
+   * Return representation of a message which can be written to a socket.
+   */
+  abstract encode(message: string): Buffer;
+
+  /**
+   * Extract the first complete message from the internal buffer.
+   */
+  protected abstract _next(): string|undefined;
+
+  /**
+   * Store chunk at the end of the internal buffer.
+   */
+  push(chunk: Buffer|string) {
+    this._buffer = Buffer.concat([
+      this._buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+  }
+
+  /**
+   * Return the first complete message which has not been extracted yet.
+   */
+  next(): string|undefined { return this._next(); }
+
+  /**
+   * Store chunk at the end of the internal buffer and return all complete
+   * messages.
+   */
+  decode(chunk: Buffer|string): string[] {
+    this.push(chunk);
+    let messages: string[] = [];
+    let message: string;
+    while ((message = this._next()) !== undefined)
+      messages.push(message);
+    return messages;
+  }
+
+  /**
+   * Clear the internal buffer and return data which have not been processed.
+   *
+   * This is useful to switch between protocols.
+   */
+  remainder(): Buffer {
+    let tmp = this._buffer;
+    this._buffer = Buffer.alloc(0);
+    return tmp;
+  }
+}
+
+/**
+ * Legacy protocol, messages are separated with a delimiter.
+ */
+export class DelimiterFraming extends Framing {
+  readonly version = ProtocolVersion.Delimiter;
+
+  encode(message: string): Buffer {
+    return Buffer.from(message + log.Project.delimiter);
+  }
+
+  protected _next(): string|undefined {
+    // Delimiter is an ASCII character so it can not be a part of a multi-byte
+    // character in UTF-8 and it is safe to search for it in a raw data.
+    let idx = this._buffer.indexOf(log.Project.delimiter);
+    if (idx < 0)
+      return undefined;
+    let message = this._buffer.toString('utf8', 0, idx);
+    this._buffer = this._buffer.slice(idx + log.Project.delimiter.length);
+    return message;
+  }
+}
+
+/**
+ * Each message is prefixed with its length.
+ */
+export class LengthPrefixFraming extends Framing {
+  static prefixSize = 4;
+
+  readonly version = ProtocolVersion.LengthPrefix;
+
+  encode(message: string): Buffer {
+    let data = Buffer.from(message);
+    let prefix = Buffer.alloc(LengthPrefixFraming.prefixSize);
+    prefix.writeUInt32BE(data.length, 0);
+    return Buffer.concat([prefix, data]);
+  }
+
+  protected _next(): string|undefined {
+    if (this._buffer.length < LengthPrefixFraming.prefixSize)
+      return undefined;
+    let size = this._buffer.readUInt32BE(0);
+    let end = LengthPrefixFraming.prefixSize + size;
+    if (this._buffer.length < end)
+      return undefined;
+    let message = this._buffer.toString(
+      'utf8', LengthPrefixFraming.prefixSize, end);
+    this._buffer = this._buffer.slice(end);
+    return message;
+  }
+}
+
+/**
+ * Create framing for a specified version of the protocol.
+ */
+export function createFraming(version: ProtocolVersion): Framing {
+  switch (version) {
+    case ProtocolVersion.Delimiter: return new DelimiterFraming;
+    case ProtocolVersion.LengthPrefix: return new LengthPrefixFraming;
+  }
+  throw new Error(log.Error.protocolVersion.replace('{0}', `${version}`));
+}
+
+/**
+ * Select the most preferable version of the protocol which is supported
+ * by the server.
+ *
+ * @param serverVersions List of versions announced by the server, legacy
+ *   version is selected if it is not specified.
+ */
+export function negotiate(serverVersions?: number[]): ProtocolVersion {
+  if (serverVersions === undefined)
+    return ProtocolVersion.Delimiter;
+  let version = supportedVersions.find(v => serverVersions.indexOf(v) >= 0);
+  if (version === undefined)
+    throw new Error(
+      log.Error.protocolVersion.replace('{0}', serverVersions.join(', ')));
+  return version;
+}
@@ -0,0 +1,323 @@
+//===--- region.ts --------- Transformation Regions --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements helpers to restrict transformations to a part of
+// a source file. A region is either selected by the user or it is a loop or
+// a function which contains the cursor. Statements of the region are wrapped
+// in '#pragma spf transform' and a compound statement, so transformation
+// is applied to the region only. Then the transformed region is extracted and
+// inserted into the original source.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { FileListProvider, FileListProviderState,
+  resolveLocation } from './fileList';
+import * as log from './log';
+import { LoopTreeProvider, LoopTreeProviderState } from './loopTree';
+import * as msg from './messages';
+import { ProjectEngine } from './project';
+
+/**
+ * Lines (0-based, inclusive) of a region to transform.
+ */
+export interface TransformRegion {
+  start: number;
+  end: number;
+
+  /**
+   * If it is `true` the region is a function, so the pragma is inserted
+   * into the function body instead of wrapping of the region.
+   */
+  scope: boolean;
+
+  /**
+   * Human-readable description of the region.
+   */
+  description: string;
+}
+
+/**
+ * Return region which is selected in an editor or a loop or a function which
+ * contains the cursor. Locations of loops and functions are available
+ * for active analysis sessions only.
+ */
+export async function findRegion(engine: ProjectEngine,
+    editor: vscode.TextEditor): Promise<TransformRegion|undefined> {
+  let selection = editor.selection;
+  if (!selection.isEmpty) {
+    let end = selection.end.character == 0 && selection.end.line >
+      selection.start.line ? selection.end.line - 1 : selection.end.line;
+    return {
+      start: selection.start.line,
+      end,
+      scope: false,
+      description: log.Region.lines
+        .replace('{0}', `${selection.start.line + 1}`)
+        .replace('{1}', `${end + 1}`)
+    };
+  }
+  let fsPath = editor.document.uri.fsPath;
+  let line = selection.active.line + 1;
+  for (let project of engine.projects()) {
+    let fileState = project.providerState(
+      FileListProvider.scheme) as FileListProviderState;
+    let loopTreeState = project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    if (!fileState.actual(new msg.FileList) ||
+        loopTreeState.functions() === undefined)
+      continue;
+    let func = loopTreeState.functions().find(f => f.User &&
+      f.StartLocation.Line <= line && f.EndLocation.Line >= line &&
+      resolveLocation(project, f.StartLocation).Path === fsPath);
+    if (func === undefined)
+      continue;
+    let loops: msg.Loop[] = [];
+    try {
+      loops = await loopTreeState.loops(project, func);
+    }
+    catch (err) {
+      log.Log.logs[0].write(err.message);
+    }
+    let loop = loops
+      .filter(l => l.StartLocation.Line <= line && l.EndLocation.Line >= line)
+      .sort((l1, l2) => l2.Level - l1.Level)[0];
+    if (loop !== undefined)
+      return {
+        start: loop.StartLocation.Line - 1,
+        end: loop.EndLocation.Line - 1,
+        scope: false,
+        description: log.Region.loop.replace('{0}',
+          `${loop.StartLocation.Line}:${loop.StartLocation.Column}`)
+      };
+    return {
+      start: func.StartLocation.Line - 1,
+      end: func.EndLocation.Line - 1,
+      scope: true,
+      description: log.Region.function.replace('{0}', func.Name)
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Return end of line sequence which is used in a specified text.
+ */
+export function eol(text: string): string {
+  return text.indexOf('\r\n') >= 0 ? '\r\n' : '\n';
+}
+
+/**
+ * Replace comments and literals with spaces, so braces and identifiers in
+ * them are not taken into account. Line breaks are kept.
+ */
+function stripCode(text: string): string {
+  let result = '';
+  let idx = 0;
+  let blank = (end: number) => {
+    result += text.substring(idx, end).replace(/[^\r\n]/g, ' ');
+    idx = end;
+  };
+  while (idx < text.length) {
+    let c = text[idx];
+    if (c == '/' && text[idx + 1] == '/') {
+      let end = text.indexOf('\n', idx);
+      blank(end < 0 ? text.length : end);
+    } else if (c == '/' && text[idx + 1] == '*') {
+      let end = text.indexOf('*/', idx + 2);
+      blank(end < 0 ? text.length : end + 2);
+    } else if (c == '"' || c == '\'') {
+      let end = idx + 1;
+      while (end < text.length && text[end] != c && text[end] != '\n')
+        end += text[end] == '\\' ? 2 : 1;
+      blank(Math.min(end + 1, text.length));
+    } else {
+      result += c;
+      ++idx;
+    }
+  }
+  return result;
+}
+
+/**
+ * Words which may start a statement but which are not names of types.
+ */
+const statementKeywords = ['return', 'goto', 'else', 'do', 'case', 'default',
+  'break', 'continue', 'if', 'for', 'while', 'switch', 'sizeof'];
+
+/**
+ * Words which may precede a name of a type in a declaration.
+ */
+const declSpecifiers = ['typedef', 'extern', 'static', 'register', 'auto',
+  'const', 'volatile', 'inline', 'signed', 'unsigned', 'short', 'long',
+  'struct', 'union', 'enum'];
+
+/**
+ * Return names which are declared in statements of a specified code
+ * (comments and literals should be stripped). Declarations in nested
+ * compound statements are ignored.
+ *
+ * This is a heuristic, so an expression may be taken for a declaration,
+ * for example `A * B`. It is safe because such names are only checked.
+ */
+function declaredNames(code: string): string[] {
+  // Remove nested blocks, a block which is a statement separates statements.
+  let top = '';
+  let depth = 0;
+  for (let idx = 0; idx < code.length; ++idx) {
+    let c = code[idx];
+    if (c == '{') {
+      if (depth++ == 0) {
+        let prev = /(\w+|\S)?\s*$/.exec(top)[1];
+        top += prev === undefined || [')', ';', '}', ':', 'else', 'do']
+          .indexOf(prev) >= 0 ? ';' : ' ';
+      }
+    } else if (c == '}') {
+      --depth;
+    } else if (depth == 0) {
+      top += c;
+    }
+  }
+  top = top.split('\n').filter(l => !l.trim().startsWith('#')).join('\n');
+  let names: string[] = [];
+  for (let stmt of top.split(';')) {
+    let tokens = stmt.match(/[A-Za-z_]\w*|\S/g) || [];
+    let idx = 0;
+    let hasSpecifier = false;
+    while (idx < tokens.length && declSpecifiers.indexOf(tokens[idx]) >= 0) {
+      hasSpecifier = true;
+      // Skip a tag of a structure.
+      if (['struct', 'union', 'enum'].indexOf(tokens[idx++]) >= 0 &&
+          /^\w/.test(tokens[idx]) && /^[\w*]/.test(tokens[idx + 1]))
+        ++idx;
+    }
+    let isIdentifier = (t: string) => t !== undefined && /^[A-Za-z_]/.test(t)
+      && statementKeywords.indexOf(t) < 0;
+    if (isIdentifier(tokens[idx]) &&
+        (isIdentifier(tokens[idx + 1]) || tokens[idx + 1] === '*'))
+      ++idx;
+    else if (!hasSpecifier || !isIdentifier(tokens[idx]) && tokens[idx] !== '*')
+      continue;
+    // Split declarators and take the first identifier in each of them.
+    let parens = 0;
+    let expectName = true;
+    for (; idx < tokens.length; ++idx) {
+      let t = tokens[idx];
+      if (t == '(' || t == '[')
+        ++parens;
+      else if (t == ')' || t == ']')
+        --parens;
+      else if (t == ',' && parens == 0)
+        expectName = true;
+      else if (t == '=' && parens == 0)
+        expectName = false;
+      else if (expectName && isIdentifier(t) &&
+          ['const', 'volatile', 'restrict'].indexOf(t) < 0) {
+        names.push(t);
+        expectName = false;
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Insert a specified pragma into a text to transform a specified region only.
+ *
+ * Statements of a region are wrapped in a compound statement, so the region
+ * must contain whole statements and variables declared in the region must
+ * not be used after it. Otherwise, an error is thrown.
+ *
+ * @param pragma Name of transformation, for example 'inline'.
+ */
+export function wrapRegion(text: string, region: TransformRegion,
+    pragma: string): string {
+  let lines = text.split(eol(text));
+  let code = stripCode(text).split(eol(text));
+  let directive = `#pragma spf transform ${pragma}`;
+  if (!region.scope) {
+    let body = code.slice(region.start, region.end + 1).join('\n');
+    let braces = 0, parens = 0;
+    for (let c of body) {
+      braces += c == '{' ? 1 : c == '}' ? -1 : 0;
+      parens += c == '(' ? 1 : c == ')' ? -1 : 0;
+      if (braces < 0 || parens < 0)
+        break;
+    }
+    let last = body.split('\n').filter(l => !l.trim().startsWith('#'))
+      .join('\n').trim();
+    if (braces != 0 || parens != 0 || /^else\b/.test(body.trim()) ||
+        last && !/[;}]$/.test(last))
+      throw new Error(log.Region.statements);
+    // Find the rest of the block which contains the region.
+    let rest = code.slice(region.end + 1).join('\n');
+    for (let idx = 0, depth = 0; idx < rest.length; ++idx) {
+      depth += rest[idx] == '{' ? 1 : rest[idx] == '}' ? -1 : 0;
+      if (depth < 0) {
+        rest = rest.substring(0, idx);
+        break;
+      }
+    }
+    let used = declaredNames(body).filter(
+      name => new RegExp(`\\b${name}\\b`).test(rest));
+    if (used.length > 0)
+      throw new Error(log.Region.declarations.replace('{0}', used.join(', ')));
+    lines.splice(region.end + 1, 0, '}');
+    lines.splice(region.start, 0, directive, '{');
+    return lines.join(eol(text));
+  }
+  // Find the body of a function which is a block closed at the end of
+  // the region.
+  let endLine = region.end;
+  let column = code[endLine].lastIndexOf('}');
+  for (let depth = 0; endLine >= region.start; --endLine) {
+    if (column < 0)
+      column = code[endLine].length - 1;
+    for (; column >= 0; --column) {
+      let c = code[endLine][column];
+      depth += c == '}' ? 1 : c == '{' ? -1 : 0;
+      if (c == '{' && depth == 0)
+        break;
+    }
+    if (column >= 0)
+      break;
+  }
+  if (endLine < region.start)
+    throw new Error(log.Region.body);
+  let line = lines[endLine];
+  lines.splice(endLine, 1, line.substring(0, column + 1), directive,
+    ...(line.substring(column + 1).trim() ? [line.substring(column + 1)] : []));
+  return lines.join(eol(text));
+}
+
+/**
+ * Insert transformed region into the original text, return `undefined` if
+ * transformation changes text outside the region.
+ *
+ * @param text Original text.
+ * @param transformed Text after transformation of the wrapped region
+ *                    (see `wrapRegion()`).
+ */
+export function extractRegion(text: string, transformed: string,
+    region: TransformRegion, pragma: string): string|undefined {
+  let lines = text.split(eol(text));
+  let result = transformed.split(eol(transformed));
+  let before = lines.slice(0, region.start);
+  let after = lines.slice(region.end + 1);
+  if (result.length < before.length + after.length ||
+      before.some((l, idx) => result[idx] !== l) ||
+      after.some((l, idx) =>
+        result[result.length - after.length + idx] !== l))
+    return undefined;
+  let body = result.slice(before.length, result.length - after.length);
+  let directive = `#pragma spf transform ${pragma}`;
+  // Transformation may keep the inserted pragma.
+  body = body.filter(l => l.trim() !== directive);
+  if (!region.scope && body.length >= 2 &&
+      body[0].trim() === '{' && body[body.length - 1].trim() === '}')
+    body = body.slice(1, body.length - 1);
+  return before.concat(body, after).join(eol(text));
+}
@@ -0,0 +1,236 @@
+//===--- transformOptions.ts ---- Transformation Options ---- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This file implements a dialog to configure transformations which have their
+// own options, for example parallelization with OpenMP or DVMH. The dialog
+// asks values of options one by one, selected values are converted to TSAR
+// options which are passed in the command line together with the
+// transformation option. Only options listed in tools.ts are proposed, so
+// the server supports all of them. Selected options are stored in
+// a project-specific directory (.tsar/transformation.json) and they are
+// proposed by default when the dialog is shown next time.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { makeDirectory } from './functions';
+import * as log from './log';
+import server from './tools';
+
+/**
+ * Description of a value of an option.
+ */
+export interface OptionValue {
+  label: string;
+  description?: string;
+
+  /**
+   * Value which is appended to the target of an option. If it is empty
+   * the option is not passed to TSAR.
+   */
+  target: string;
+}
+
+/**
+ * Description of an option of a transformation.
+ *
+ * The option value is either selected from a list of values or it is
+ * specified manually if there are no predefined values.
+ */
+export interface TransformationOption {
+  label: string;
+  description: string;
+
+  /**
+   * Corresponding TSAR option, the value is appended to it.
+   */
+  target: string;
+
+  /**
+   * Predefined values, the first one is used by default.
+   */
+  values?: OptionValue[];
+
+  /**
+   * Pattern to check a manually specified value. An empty value is always
+   * allowed and means that the option is not passed to TSAR.
+   */
+  pattern?: RegExp;
+}
+
+/**
+ * Return option of TSAR with a specified target from the list of options in
+ * tools.ts, so only options which are supported by the server are proposed.
+ *
+ * A flag is converted to an option with two values: the flag is passed or it
+ * is omitted. Values of an option with nested options are preceded with
+ * a value which omits the option, so the server default is used.
+ */
+function tsarOption(target: string): TransformationOption {
+  let option = (server.tools.find(t => t.name === 'tsar').options as any[])
+    .find(o => o.target === target);
+  if (option.options === undefined)
+    return {
+      label: option.label,
+      description: option.description,
+      target: '',
+      values: [
+        {
+          label: log.Options.no,
+          description: log.Options.omit.replace('{0}', target),
+          target: ''
+        },
+        { label: log.Options.yes, description: target, target }
+      ]
+    };
+  return {
+    label: option.label,
+    description: option.description,
+    target,
+    values: [
+      {
+        label: log.Options.serverDefault,
+        description: log.Options.omit.replace('{0}', target),
+        target: ''
+      },
+      ...option.options.map(o => ({
+        label: o.label,
+        description: o.description,
+        target: o.target
+      }))
+    ]
+  };
+}
+
+/**
+ * Options of TSAR which affect results of parallelization: assumptions which
+ * make dependence analysis more precise and formatting of generated sources.
+ *
+ * The server does not accept options to configure parallel programs, so
+ * passes select them on their own: the OpenMP pass (-clang-openmp-parallel)
+ * chooses loops, clauses and parallel regions, the DVMH pass
+ * (-clang-experimental-apc-dvmh) chooses distribution templates, the processor
+ * grid and regions. These settings are not proposed.
+ */
+export const parallelizationOptions: TransformationOption[] = [
+  '-finbounds-subscripts',
+  '-fno-external-calls',
+  '-fno-math-errno',
+  '-fignore-redundant-memory=',
+  '-no-format'
+].map(tsarOption);
+
+/**
+ * Return options which have been selected for a project earlier, options are
+ * grouped by names of transformation commands.
+ *
+ * @param prjDir Path to the project-specific directory, for example .tsar.
+ */
+export function loadSelectedOptions(prjDir: string):
+    { [command: string]: string[] } {
+  let file = path.join(prjDir, log.Project.transformationOptions);
+  if (!fs.existsSync(file))
+    return {};
+  try {
+    let selected = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return typeof selected === 'object' && selected !== null ? selected : {};
+  }
+  catch (err) {
+    // Selected options are not important, so ignore damaged file.
+    log.Log.logs[0].write(err.message);
+    return {};
+  }
+}
+
+/**
+ * Remember options which have been selected for a transformation command.
+ */
+export function saveSelectedOptions(prjDir: string, command: string,
+    args: string[]) {
+  let selected = loadSelectedOptions(prjDir);
+  selected[command] = args;
+  makeDirectory(prjDir);
+  fs.writeFileSync(path.join(prjDir, log.Project.transformationOptions),
+    JSON.stringify(selected, null, 2));
+}
+
+/**
+ * Return arguments which can be produced by a dialog with specified options,
+ * other arguments (for example, stored by an earlier version) are dropped.
+ */
+export function knownOptions(options: TransformationOption[],
+    args: string[]): string[] {
+  return args.filter(arg => options.some(o => o.values
+    ? o.values.some(v => v.target && arg === `${o.target}${v.target}`)
+    : arg.startsWith(o.target) &&
+      (!o.pattern || o.pattern.test(arg.substring(o.target.length)))));
+}
+
+/**
+ * Return options which are used if nothing has been selected: the first value
+ * of each option, options without predefined values are omitted.
+ */
+export function defaultOptions(options: TransformationOption[]): string[] {
+  return options.filter(o => o.values && o.values[0].target).map(
+    o => `${o.target}${o.values[0].target}`);
+}
+
+/**
+ * Ask the user to specify options of a transformation, return TSAR options
+ * or `undefined` if the dialog has been cancelled.
+ *
+ * @param title Title of a transformation.
+ * @param previous Options which have been selected earlier, they are
+ *                 proposed by default.
+ */
+export async function selectOptions(title: string,
+    options: TransformationOption[], previous: string[] = []):
+    Promise<string[]|undefined> {
+  let args: string[] = [];
+  for (let option of options) {
+    let placeHolder = log.Options.select
+      .replace('{0}', title).replace('{1}', option.label);
+    if (option.values) {
+      // Move the value selected earlier to the top, so it is proposed by
+      // default (the omitted option corresponds to the empty target).
+      let values = option.values.slice();
+      let idx = values.findIndex(v => v.target &&
+        previous.indexOf(`${option.target}${v.target}`) >= 0);
+      if (idx < 0)
+        idx = values.findIndex(v => !v.target);
+      if (idx > 0)
+        values.unshift(...values.splice(idx, 1));
+      let value = await vscode.window.showQuickPick(values,
+        { ignoreFocusOut: true, placeHolder });
+      if (value === undefined)
+        return undefined;
+      if (value.target)
+        args.push(`${option.target}${value.target}`);
+      continue;
+    }
+    let last = previous.find(arg => arg.startsWith(option.target));
+    let lastValue = last !== undefined
+      ? last.substring(option.target.length) : undefined;
+    let value = await vscode.window.showInputBox({
+      ignoreFocusOut: true,
+      placeHolder,
+      prompt: option.description,
+      value: lastValue,
+      validateInput: value => {
+        if (!value || !option.pattern || option.pattern.test(value))
+          return undefined;
+        return log.Options.invalid.replace('{0}', option.label);
+      }
+    });
+    if (value === undefined)
+      return undefined;
+    if (value)
+      args.push(`${option.target}${value}`);
+  }
+  return args;
+}
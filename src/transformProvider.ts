@@ -8,55 +8,500 @@
 
 'use strict'
 
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { isCompilationDatabase } from './compilationDatabase';
+import { TransformationHistory } from './history';
 import * as log from './log';
 import * as msg from './messages';
 import {DisposableLikeList, onReject} from './functions'; 
 import {Project, ProjectEngine, ProjectContentProvider,
   ProjectContentProviderState} from './project';
+import { parallelizeLoop } from './loopParallel';
+import { loadProjectConfig } from './projectConfig';
+import { showProgress } from './progress';
+import { applyChanges, createScratchProject, currentText,
+  removeScratchProject, ScratchProject,
+  TransformationPreview } from './preview';
+import { extractRegion, findRegion, wrapRegion } from './region';
 import server from './tools';
+import { defaultOptions, knownOptions, loadSelectedOptions,
+  saveSelectedOptions, selectOptions,
+  TransformationOption } from './transformOptions';
+
+/**
+ * Description of a transformation command.
+ */
+export interface TransformationInfo {
+  /**
+   * Name of a command.
+   */
+  command: string;
+
+  /**
+   * Title of a transformation.
+   */
+  title: string;
+
+  /**
+   * Corresponding TSAR option.
+   */
+  run: string;
+
+  /**
+   * Additional TSAR options which are passed in the command line, for
+   * example options which are selected in a dialog.
+   */
+  args?: string[];
+
+  /**
+   * Name of the transformation in '#pragma spf transform' if transformation
+   * can be applied to a part of a source file.
+   */
+  pragma?: string;
+
+  /**
+   * Whether the command only analyzes sources and does not change them,
+   * so neither preview nor history of changes are necessary.
+   */
+  analysis?: boolean;
+
+  /**
+   * Options of the transformation which are specified in a dialog before
+   * the transformation is executed.
+   */
+  options?: TransformationOption[];
+}
+
+/**
+ * Sequence of transformations which are executed in a single analysis
+ * session, a single transformation is a pipeline with one step.
+ *
+ * Note, that each step is a separate command line for the server, so sources
+ * are parsed for each step. It is necessary because each transformation
+ * changes sources which are inputs for the next one. However, the server is
+ * launched only once.
+ */
+interface Pipeline {
+  title: string;
+  steps: TransformationInfo[];
+
+  /**
+   * Steps which do not correspond to any transformation command.
+   */
+  unknown?: string[];
+}
+
+/**
+ * Return pipeline which consists of a single transformation.
+ */
+function single(info: TransformationInfo): Pipeline {
+  return { title: info.title, steps: [info] };
+}
+
+/**
+ * Return options which select transformations in a pipeline.
+ */
+function query(pipeline: Pipeline): string {
+  return pipeline.steps.map(
+    step => [step.run].concat(step.args || []).join(' ')).join(' ');
+}
+
+/**
+ * Return `true` if the server has reported that a transformation fails.
+ */
+function isFailed(status: msg.Status): boolean {
+  return status == msg.Status.Error || status == msg.Status.Invalid;
+}
+
+/**
+ * Run transformations for an active project, resolve to status of the last
+ * executed transformation when transformations are finished and to
+ * `undefined` if they have been cancelled.
+ *
+ * Transformations are executed one by one, the first transformation which
+ * fails stops the pipeline.
+ */
+async function transform(engine: ProjectEngine, project: Project,
+    pipeline: Pipeline): Promise<msg.Status|undefined> {
+  let state = project.providerState(TransformationProvider.scheme);
+  state.active = true;
+  project.focus = state;
+  return showProgress(project, pipeline.title, async progress => {
+    let steps = pipeline.steps;
+    let status = msg.Status.Done;
+    try {
+      for (let idx = 0; idx < steps.length; ++idx) {
+        if (steps.length > 1)
+          progress.report({
+            message: log.Pipeline.step.replace('{0}', `${idx + 1}`)
+              .replace('{1}', `${steps.length}`)
+              .replace('{2}', steps[idx].title),
+            increment: idx > 0 ? 100 / steps.length : undefined
+          });
+        let diag = await engine.runTool(project, steps[idx].run,
+          steps[idx].args);
+        status = diag.Status;
+        if (isFailed(status)) {
+          if (idx + 1 < steps.length)
+            vscode.window.showWarningMessage(
+              `${log.Extension.displayName} | ${pipeline.title}: ` +
+              log.Pipeline.stopped.replace('{0}', steps[idx].title));
+          break;
+        }
+      }
+      await project.send<msg.Diagnostic>('', { timeout: 0 });
+      return status;
+    }
+    catch (err) {
+      // Transformation is cancelled or the session is closed.
+      log.Log.logs[0].write(err.message);
+      state.active = false;
+      return undefined;
+    }
+  });
+}
+
+/**
+ * Run transformations on a scratch copy of sources, return new content of
+ * the original files and arguments of the command line which has been used
+ * (paths to copies are replaced with paths to the original files). Return
+ * `undefined` if transformations have been cancelled or some of them fail.
+ */
+async function transformScratch(engine: ProjectEngine, pipeline: Pipeline,
+    scratch: ScratchProject, base: string):
+    Promise<[Map<string, string>, string[]]|undefined> {
+  let project: Project;
+  try {
+    let doc = await vscode.workspace.openTextDocument(scratch.uri);
+    project = await engine.start(doc,
+      server.tools.find(t => t.name === 'tsar'));
+    let status = await transform(engine, project, pipeline);
+    if (status === undefined)
+      return undefined;
+    if (isFailed(status)) {
+      vscode.window.showErrorMessage(`${log.Extension.displayName}: ` +
+        log.Pipeline.failed.replace('{0}', pipeline.title));
+      return undefined;
+    }
+    let changes = new Map<string, string>();
+    for (let [copy, original] of scratch.files)
+      changes.set(original, fs.readFileSync(copy, 'utf8'));
+    return [changes, Array.from(project.arguments).map(
+      arg => arg.split(scratch.directory).join(base))];
+  }
+  finally {
+    if (project !== undefined)
+      engine.stop(project);
+  }
+}
+
+/**
+ * Apply changes of files (preview them at first if it is enabled in
+ * settings) and store the original files in the history.
+ */
+async function applyTransformation(preview: TransformationPreview,
+    history: TransformationHistory, pipeline: Pipeline, title: string,
+    base: string, args: string[], changes: Map<string, string>) {
+  let originals = new Map<string, string>();
+  for (let [fsPath, text] of changes) {
+    let originalText = currentText(fsPath);
+    if (text !== originalText)
+      originals.set(fsPath, originalText);
+  }
+  let userConfig = vscode.workspace.getConfiguration(log.Extension.id);
+  let applied = userConfig.get('transformation.preview', true)
+    ? await preview.show(title, changes)
+    : originals.size > 0 && await applyChanges(changes);
+  if (applied)
+    history.record(base, title, args, query(pipeline), originals);
+}
+
+/**
+ * Run transformations on a scratch copy of sources and preview changes.
+ *
+ * Transformations do not run if sources can not be copied, because they
+ * may change the original files.
+ */
+async function transformWithPreview(engine: ProjectEngine,
+    preview: TransformationPreview, history: TransformationHistory,
+    pipeline: Pipeline, uri: vscode.Uri) {
+  let scratch = createScratchProject(uri);
+  if (scratch === undefined) {
+    vscode.window.showErrorMessage(
+      `${log.Extension.displayName}: ${log.Preview.outsideProject}`);
+    return;
+  }
+  try {
+    let base = path.dirname(uri.fsPath);
+    let result = await transformScratch(engine, pipeline, scratch, base);
+    if (result === undefined)
+      return;
+    let [changes, args] = result;
+    await applyTransformation(preview, history, pipeline, pipeline.title,
+      base, args, changes);
+  }
+  catch (reason) {
+    onReject(reason, uri);
+  }
+  finally {
+    removeScratchProject(scratch);
+  }
+}
+
+/**
+ * Run transformation for a selected region or for a loop or a function
+ * which contains the cursor.
+ *
+ * The region is wrapped in the transformation pragma in a scratch copy of
+ * sources, so other parts of sources are not changed.
+ */
+async function transformRegion(engine: ProjectEngine,
+    preview: TransformationPreview, history: TransformationHistory,
+    info: TransformationInfo, editor: vscode.TextEditor) {
+  let uri = editor.document.uri;
+  let region = await findRegion(engine, editor);
+  if (region === undefined) {
+    vscode.window.showErrorMessage(
+      `${log.Extension.displayName}: ${log.Region.notFound}`);
+    return;
+  }
+  let title = log.Region.title
+    .replace('{0}', info.title).replace('{1}', region.description);
+  let text = editor.document.getText();
+  let wrapped: string;
+  try {
+    wrapped = wrapRegion(text, region, info.pragma);
+  }
+  catch (err) {
+    vscode.window.showErrorMessage(
+      `${log.Extension.displayName} | ${title}: ${err.message}`);
+    return;
+  }
+  let scratch = createScratchProject(uri);
+  if (scratch === undefined) {
+    vscode.window.showErrorMessage(
+      `${log.Extension.displayName}: ${log.Preview.outsideProject}`);
+    return;
+  }
+  try {
+    fs.writeFileSync(scratch.uri.fsPath, wrapped);
+    let base = path.dirname(uri.fsPath);
+    let result = await transformScratch(engine, single(info), scratch, base);
+    if (result === undefined)
+      return;
+    let [changes, args] = result;
+    let transformed = extractRegion(text, changes.get(uri.fsPath), region,
+      info.pragma);
+    if (transformed === undefined) {
+      vscode.window.showErrorMessage(
+        `${log.Extension.displayName} | ${title}: ${log.Region.outside}`);
+      return;
+    }
+    await applyTransformation(preview, history, single(info), title, base,
+      args, new Map([[uri.fsPath, transformed]]));
+  }
+  catch (reason) {
+    onReject(reason, uri);
+  }
+  finally {
+    removeScratchProject(scratch);
+  }
+}
+
+/**
+ * Run transformations which update sources in place.
+ */
+function transformInPlace(engine: ProjectEngine,
+    history: TransformationHistory, pipeline: Pipeline, uri: vscode.Uri) {
+  return vscode.workspace.openTextDocument(uri)
+    .then((success) => {return engine.start(success,
+      server.tools.find(t=>{return t.name === 'tsar'}));
+     })
+    .then(
+      async project => {
+        // Keep the session open to examine results of analysis.
+        if (pipeline.steps.every(step => step.analysis)) {
+          await transform(engine, project, pipeline);
+          return;
+        }
+        let originals = new Map<string, string>();
+        for (let source of project.sources)
+          originals.set(source, fs.readFileSync(source, 'utf8'));
+        let status = await transform(engine, project, pipeline);
+        engine.stop(project);
+        if (status === undefined || isFailed(status))
+          return;
+        // Only files which have been changed are stored.
+        for (let [source, text] of originals)
+          if (fs.readFileSync(source, 'utf8') === text)
+            originals.delete(source);
+        if (originals.size > 0)
+          history.record(path.dirname(project.dirname), pipeline.title,
+            Array.from(project.arguments), query(pipeline), originals);
+      },
+      reason => { return onReject(reason, uri) })
+}
+
+/**
+ * Run transformations in a way which is selected in settings.
+ *
+ * Sources of a compilation database can not be copied to a scratch
+ * directory, so they are changed in place if the user agrees.
+ */
+async function run(engine: ProjectEngine, preview: TransformationPreview,
+    history: TransformationHistory, pipeline: Pipeline, uri: vscode.Uri) {
+  let userConfig = vscode.workspace.getConfiguration(log.Extension.id);
+  if (pipeline.steps.some(step => !step.analysis) &&
+      userConfig.get('transformation.preview', true)) {
+    if (!isCompilationDatabase(uri))
+      return transformWithPreview(engine, preview, history, pipeline, uri);
+    let answer = await vscode.window.showWarningMessage(
+      `${log.Extension.displayName} | ${pipeline.title}: ` +
+      log.Preview.compilationDatabase, { modal: true }, log.Preview.inPlace);
+    if (answer !== log.Preview.inPlace)
+      return;
+  }
+  return transformInPlace(engine, history, pipeline, uri);
+}
+
+/**
+ * Return pipelines which are available for a project which is started with
+ * a specified file.
+ *
+ * Pipelines from the project configuration override pipelines with
+ * the same names from settings. Steps of a pipeline are TSAR options or names
+ * of transformation commands, other steps are collected in `unknown`. If
+ * a transformation has options, the options which have been selected for
+ * the project earlier are used, otherwise default options are used.
+ */
+function pipelines(commandList: TransformationInfo[], uri: vscode.Uri):
+    Pipeline[] {
+  let userConfig = vscode.workspace.getConfiguration(log.Extension.id);
+  let available: { [name: string]: string[] } = Object.assign({},
+    userConfig.get('transformation.pipelines', {}));
+  let prjDir = path.join(path.dirname(uri.fsPath), log.Project.directory);
+  let config = loadProjectConfig(prjDir);
+  let selected = loadSelectedOptions(prjDir);
+  if (config && config.Pipelines)
+    Object.assign(available, config.Pipelines);
+  return Object.keys(available).map(name => {
+    let pipeline: Pipeline = { title: name, steps: [], unknown: [] };
+    for (let step of available[name]) {
+      let info = commandList.find(
+        info => info.run === step || info.command === step);
+      if (info !== undefined && info.options)
+        pipeline.steps.push(Object.assign({}, info, {
+          args: selected[info.command]
+            ? knownOptions(info.options, selected[info.command])
+            : defaultOptions(info.options)
+        }));
+      else if (info !== undefined)
+        pipeline.steps.push(info);
+      else
+        pipeline.unknown.push(step);
+    }
+    return pipeline;
+  });
+}
 
 /**
  * Register transformation command.
- * 
+ *
  * @param command Command descriptions: name, title and corresponding TSAR option.
  */
-export function registerCommands(
-    commandList: {command: string, title: string, run: string}[],
+export function registerCommands(commandList: TransformationInfo[],
     engine: ProjectEngine, subscriptions: DisposableLikeList) {
-  for (let info of commandList)
+  let preview = new TransformationPreview;
+  let history = new TransformationHistory;
+  subscriptions.push(preview, history);
+  for (let info of commandList.filter(info => !info.options))
+    subscriptions.push(vscode.commands.registerCommand(
+      info.command, (uri:vscode.Uri) =>
+        run(engine, preview, history, single(info), uri)));
+  // Options may be passed as an argument, so the dialog is not shown.
+  for (let info of commandList.filter(info => info.options))
+    subscriptions.push(vscode.commands.registerCommand(
+      info.command, async (uri: vscode.Uri, options?: string[]) => {
+        if (options === undefined) {
+          let prjDir = path.join(path.dirname(uri.fsPath),
+            log.Project.directory);
+          options = await selectOptions(info.title, info.options,
+            loadSelectedOptions(prjDir)[info.command]);
+          if (options === undefined)
+            return;
+          try {
+            saveSelectedOptions(prjDir, info.command, options);
+          }
+          catch (err) {
+            log.Log.logs[0].write(err.message);
+          }
+        }
+        let step = Object.assign({}, info, { args: options });
+        return run(engine, preview, history, single(step), uri);
+      }));
+  for (let info of commandList.filter(info => info.pragma))
     subscriptions.push(vscode.commands.registerCommand(
-      info.command, (uri:vscode.Uri) => {
-        vscode.workspace.openTextDocument(uri)
-          .then((success) => {return engine.start(success,
-            server.tools.find(t=>{return t.name === 'tsar'}));
-           })
-          .then(
-            async project => {
-              let state = project.providerState(TransformationProvider.scheme);
-              vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                cancellable: true,
-                title: `${log.Extension.displayName} | ${project.prjname}: ${info.title}`,
-              }, (progress, token) => {
-                token.onCancellationRequested(() => {
-                  vscode.commands.executeCommand('tsar.stop', project.uri);
-                });
-                return new Promise(resolve => {
-                  state.onDidChangeActiveState(isActive => {
-                    if (!isActive) {
-                      Promise.resolve();
-                    }
-                  });
-                });
-              }).then((value) => {vscode.commands.executeCommand('tsar.stop', project.uri)});
-              state.active = true;
-              project.focus = state;
-              await engine.runTool(project, info.run)
-              project.send('');
-            },
-            reason => { return onReject(reason, uri) })
-      }))
+      `${info.command}.region`, (uri?: vscode.Uri) => {
+        let editor = vscode.window.activeTextEditor;
+        if (editor === undefined ||
+            uri !== undefined && editor.document.uri.fsPath !== uri.fsPath)
+          return;
+        return transformRegion(engine, preview, history, info, editor);
+      }));
+  subscriptions.push(vscode.commands.registerCommand('tsar.loop.parallel',
+    async (uri: vscode.Uri) => {
+      try {
+        let loop = await parallelizeLoop(engine, uri);
+        if (loop === undefined)
+          return;
+        let project = loop.project;
+        await applyTransformation(preview, history,
+          { title: loop.title, steps: [] }, loop.title,
+          path.dirname(project.dirname),
+          project.arguments ? Array.from(project.arguments) : [],
+          loop.changes);
+      }
+      catch (err) {
+        vscode.window.showErrorMessage(
+          `${log.Extension.displayName}: ${err.message}`);
+      }
+    }));
+  subscriptions.push(vscode.commands.registerCommand(
+    'tsar.transform.pipeline', async (uri: vscode.Uri, name?: string) => {
+      let available: Pipeline[];
+      try {
+        available = pipelines(commandList, uri);
+      }
+      catch (err) {
+        return onReject(err, uri);
+      }
+      if (available.length == 0) {
+        vscode.window.showErrorMessage(
+          `${log.Extension.displayName}: ${log.Pipeline.notFound}`);
+        return;
+      }
+      let pipeline = available.find(p => p.title === name);
+      if (pipeline === undefined) {
+        let item = available.length == 1 ? { pipeline: available[0] } :
+          await vscode.window.showQuickPick(available.map(p => ({
+            label: p.title,
+            description: p.steps.map(step => step.title).join(' → '),
+            pipeline: p
+          })), { placeHolder: log.Pipeline.select });
+        if (item === undefined)
+          return;
+        pipeline = item.pipeline;
+      }
+      if (pipeline.unknown.length > 0) {
+        vscode.window.showErrorMessage(`${log.Extension.displayName}: ` +
+          log.Pipeline.unknown.replace('{0}', pipeline.title)
+            .replace('{1}', pipeline.unknown.join(', ')));
+        return;
+      }
+      return run(engine, preview, history, pipeline, uri);
+    }));
 }
 
 class TransformationProviderState implements ProjectContentProviderState {
@@ -0,0 +1,8 @@
+int twice(int X) { return 2 * X; }
+
+int main() {
+  int Y = 1;
+  #pragma spf transform inline
+  Y = twice(Y);
+  return Y;
+}
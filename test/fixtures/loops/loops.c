@@ -0,0 +1,23 @@
+#include <stdio.h>
+
+#define N 100
+
+double A[N][N], B[N][N];
+
+double sum(int Size, double *V) {
+  double S = 0;
+  for (int I = 0; I < Size; ++I)
+    S += V[I];
+  return S;
+}
+
+int main() {
+  for (int I = 0; I < N; ++I)
+    for (int J = 0; J < N; ++J)
+      A[I][J] = I + J;
+  for (int I = 1; I < N; ++I)
+    for (int J = 0; J < N; ++J)
+      B[I][J] = B[I - 1][J] + A[I][J];
+  printf("%f\n", sum(N, A[N - 1]) + sum(N, B[N - 1]));
+  return 0;
+}
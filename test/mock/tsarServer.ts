@@ -0,0 +1,196 @@
+//===--- tsarServer.ts -------- Mock Analysis Server -------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This is a scriptable stand-in for tsar-server which allows to test the
+// extension without TSAR and LLVM installed. It follows the same handshake
+// as the real server: it reports 'start', 'listen' and 'accept' statuses
+// to stdout (see log.Server) and then replays canned responses from
+// a scenario file for requests received through a socket.
+//
+// Usage:
+//   node tsarServer.js --scenario <scenario.json> [--protocol <versions>]
+//     [--delay <ms>] [session-log]
+// where <versions> is a comma-separated list of supported versions of
+// the protocol (see protocol.ts), by default all versions are supported.
+// If <ms> is specified responses to command lines are delayed, so the request
+// can be cancelled (a cancelled request is not answered).
+//
+// Scenario is a JSON object which contains responses:
+// - 'Diagnostic' is a response to a command line which runs the tool,
+// - 'FileList', 'FunctionList', 'Statistic' are responses to corresponding
+//   requests,
+// - 'LoopTree', 'AliasTree', 'CalleeFuncList' are lists of responses, the
+//   response is selected according to the identifiers of a function
+//   (FunctionID or FuncID) and a loop (LoopID) in a request.
+// - 'Transformation' maps names of files to their content, files from
+//   a command line which have the same names are overwritten.
+// A request without appropriate response is rejected. Identifier of
+// a request (RequestID) is added to the response or to the rejection.
+//
+// Do not use here 'vscode' module, only standard Node.js modules can be used.
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import * as log from '../../src/log';
+import { createFraming, DelimiterFraming, Framing,
+  supportedVersions } from '../../src/protocol';
+
+interface Scenario {
+  Diagnostic?: any;
+  FileList?: any;
+  FunctionList?: any;
+  Statistic?: any;
+  LoopTree?: any[];
+  AliasTree?: any[];
+  CalleeFuncList?: any[];
+  Transformation?: { [name: string]: string };
+}
+
+/**
+ * Print status of the server in the same way as tsar-server does.
+ */
+function status(data: {}) {
+  console.log(JSON.stringify(data));
+}
+
+/**
+ * Overwrite sources from a specified list of arguments of a command line
+ * according to the scenario.
+ */
+function transform(scenario: Scenario, args: string[]) {
+  if (scenario.Transformation === undefined)
+    return;
+  for (let arg of args) {
+    let content = scenario.Transformation[path.basename(arg)];
+    if (content !== undefined && fs.existsSync(arg))
+      fs.writeFileSync(arg, content);
+  }
+}
+
+/**
+ * Return response to a specified request or its rejection if there is no
+ * appropriate response in the scenario.
+ */
+function respond(scenario: Scenario, request: any): string {
+  let response: any;
+  if (typeof request === 'string') {
+    // Empty request finishes transformation.
+    response = { name: 'Diagnostic', Status: 'Done', Error: [], Warning: [] };
+  } else {
+    let loopID = (r: any) => r.LoopID ? r.LoopID : 0;
+    switch (request.name) {
+      case 'CommandLine':
+        transform(scenario, request.Args);
+        response = scenario.Diagnostic !== undefined ? scenario.Diagnostic :
+          { name: 'Diagnostic', Status: 'Success', Error: [], Warning: [] };
+        break;
+      case 'FileList':
+      case 'FunctionList':
+      case 'Statistic':
+        response = scenario[request.name];
+        break;
+      case 'LoopTree':
+        response = (scenario.LoopTree || []).find(
+          r => r.FunctionID == request.FunctionID);
+        break;
+      case 'AliasTree':
+      case 'CalleeFuncList':
+        response = (scenario[request.name] || []).find(
+          r => r.FuncID == request.FuncID && loopID(r) == loopID(request));
+        break;
+    }
+  }
+  if (response === undefined)
+    return request.RequestID !== undefined
+      ? JSON.stringify({ name: 'Reject', RequestID: request.RequestID })
+      : 'REJECT';
+  if (request.RequestID !== undefined)
+    response = Object.assign({}, response, { RequestID: request.RequestID });
+  return JSON.stringify(response);
+}
+
+function run(scenarioFile: string, versions: number[], delay: number) {
+  let scenario: Scenario = JSON.parse(fs.readFileSync(scenarioFile, 'utf8'));
+  status({
+    Status: log.Server.start,
+    TSARVersion: 'mock',
+    ProtocolVersions: versions
+  });
+  let server = net.createServer(socket => {
+    status({
+      Status: log.Server.connection,
+      ClientAddress: socket.remoteAddress,
+      ClientPort: socket.remotePort,
+      ServerAddress: socket.localAddress,
+      ServerPort: socket.localPort
+    });
+    let framing: Framing = new DelimiterFraming;
+    // Responses which are delayed to emulate long requests.
+    let delayed = new Map<number, [NodeJS.Timer, string]>();
+    socket.on('data', (data: Buffer) => {
+      framing.push(data);
+      let message: string;
+      while ((message = framing.next()) !== undefined) {
+        let request = JSON.parse(message);
+        if (request && request.name === 'Protocol') {
+          let next = createFraming(request.Version);
+          next.push(framing.remainder());
+          framing = next;
+          continue;
+        }
+        // Processing of the aborted request stops, but the request is
+        // answered as usual.
+        if (request && request.name === 'Cancel') {
+          let aborted = delayed.get(request.RequestID);
+          if (aborted !== undefined) {
+            clearTimeout(aborted[0]);
+            delayed.delete(request.RequestID);
+            socket.write(framing.encode(aborted[1]));
+          }
+          continue;
+        }
+        if (delay > 0 && request && request.name === 'CommandLine') {
+          let response = respond(scenario, request);
+          delayed.set(request.RequestID, [setTimeout(() => {
+            delayed.delete(request.RequestID);
+            socket.write(framing.encode(response));
+          }, delay), response]);
+          continue;
+        }
+        socket.write(framing.encode(respond(scenario, request)));
+      }
+    });
+    socket.on('close', () => {
+      status({ Status: log.Server.close, Message: 'connection is closed' });
+      server.close();
+    });
+    socket.on('error', () => {});
+  });
+  server.listen(0, '127.0.0.1', () => {
+    let address = server.address() as net.AddressInfo;
+    status({
+      Status: log.Server.listening,
+      ServerAddress: address.address,
+      ServerPort: address.port
+    });
+  });
+}
+
+let scenarioIdx = process.argv.indexOf('--scenario');
+if (scenarioIdx < 0 || scenarioIdx + 1 >= process.argv.length) {
+  status({ Status: log.Server.error, Message: 'scenario is not specified' });
+  process.exit(1);
+}
+let protocolIdx = process.argv.indexOf('--protocol');
+let versions = protocolIdx < 0 || protocolIdx + 1 >= process.argv.length
+  ? supportedVersions.slice()
+  : process.argv[protocolIdx + 1].split(',').map(v => Number(v));
+let delayIdx = process.argv.indexOf('--delay');
+let delay = delayIdx < 0 || delayIdx + 1 >= process.argv.length
+  ? 0 : Number(process.argv[delayIdx + 1]);
+run(process.argv[scenarioIdx + 1], versions, delay);
@@ -0,0 +1,32 @@
+//===--- runTest.ts --------- Extension Test Runner --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This downloads VS Code and runs extension tests inside of it. Note, that
+// tests do not require TSAR to be installed, a mock analysis server
+// (see test/mock/tsarServer.ts) is used instead.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main() {
+  try {
+    let extensionDevelopmentPath = path.resolve(__dirname, '..', '..');
+    let extensionTestsPath = path.resolve(__dirname, 'suite', 'index');
+    await runTests({
+      extensionDevelopmentPath,
+      extensionTestsPath,
+      launchArgs: ['--disable-extensions']
+    });
+  }
+  catch (err) {
+    console.error(`Failed to run tests: ${err}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,33 @@
+//===--- aliasTree.test.ts -------- Alias Tree Tests -------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that nodes of an alias tree are described
+// for search and filtering in the alias tree view.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import { nodeFilters, nodeObjects } from '../../src/aliasTree';
+import { loadFixture } from './helpers';
+
+suite('Alias tree view', () => {
+  let fixture = loadFixture('loops');
+
+  test('Nodes are found by names of variables', () => {
+    let tree = fixture.aliasTree(1, 1);
+    assert.deepStrictEqual(tree.Nodes.map(n => nodeObjects(n)),
+      [[], ['S'], ['I'], ['V']]);
+  });
+
+  test('Nodes are filtered by traits', () => {
+    let tree = fixture.aliasTree(1, 1);
+    assert.deepStrictEqual(tree.Nodes.map(n => nodeFilters(n)),
+      [[], ['reduction'], ['private', 'induction'], []]);
+    let dependence = fixture.aliasTree(2, 4).Nodes.filter(
+      n => nodeFilters(n).indexOf('dependence') >= 0);
+    assert.deepStrictEqual(dependence.map(n => nodeObjects(n)), [['B']]);
+  });
+});
@@ -0,0 +1,66 @@
+//===--- blockers.test.ts ----- Why Not Parallel Tests ------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that reasons which prevent parallel
+// execution of a loop are collected from the server responses.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import { BlockersProvider, BlockersProviderState,
+  loopBlockers } from '../../src/blockers';
+import * as msg from '../../src/messages';
+import { loadFixture } from './helpers';
+
+suite('Why not parallel', () => {
+  let fixture = loadFixture('loops');
+  let loops = fixture.func('main').Loops;
+
+  test('Data dependencies are reported', () => {
+    let loop = loops.find(l => l.ID == 4);
+    let blockers = loopBlockers(loop, fixture.aliasTree(2, loop.ID));
+    assert.deepStrictEqual(blockers.map(b => b.description),
+      ['flow dependence of B (must, 1:1)']);
+    assert.ok(blockers[0].locations.length > 0);
+  });
+
+  test('Unsafe statements and properties of a loop are reported', () => {
+    let loop: msg.Loop = Object.assign({}, loops[0], {
+      Traits: Object.assign({}, loops[0].Traits,
+        { Canonical: 'No', UnsafeCFG: 'Yes', Parallel: 'No' })
+    });
+    let unsafe: msg.CalleeFuncInfo[] = [
+      { Kind: msg.StatementKind.Break, CalleeID: 0,
+        StartLocation: [loop.EndLocation] },
+      { Kind: msg.StatementKind.Call, CalleeID: 1,
+        StartLocation: [loop.EndLocation] }
+    ];
+    assert.deepStrictEqual(
+      loopBlockers(loop, undefined, unsafe, [], fixture.functions)
+        .map(b => b.description), [
+        'loop is not in a canonical form',
+        'unsafe control flow: break',
+        'unsafe control flow: call of sum'
+      ]);
+  });
+
+  test('Unknown loop is not explained', async () => {
+    let state = new BlockersProviderState(new BlockersProvider);
+    let project: any = {
+      providerState: () => ({
+        functions: () => fixture.functions,
+        loops: async (_: any, f: msg.Function) => f.Loops
+      })
+    };
+    state.target = { FuncID: 2, LoopID: 42 };
+    let data = await state.onResponse(undefined, project);
+    assert.strictEqual(data.Loop, undefined);
+    assert.deepStrictEqual(data.Blockers, []);
+    state.target = { FuncID: 42, LoopID: 4 };
+    assert.strictEqual((await state.onResponse(undefined, project)).Loop,
+      undefined);
+  });
+});
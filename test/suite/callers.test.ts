@@ -0,0 +1,39 @@
+//===--- callers.test.ts ------ Function Callers Tests ------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that call sites of a function are found
+// and loops which contain them are determined.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import { callSites, enclosingLoops } from '../../src/callers';
+import { loadFixture } from './helpers';
+
+suite('Callers of a function', () => {
+  let { functions, callees } = loadFixture('loops');
+  let main = functions.find(f => f.Name == 'main');
+  let loops = main.Loops;
+
+  test('Call sites are found in all callers', () => {
+    let sum = functions.find(f => f.Name == 'sum');
+    let sites = callSites(sum.ID, functions, callees, () => loops);
+    assert.deepStrictEqual(
+      sites.map(s => [s.Caller.Name, s.Location.Line, s.Location.Column]),
+      [['main', 21, 18], ['main', 21, 37]]);
+    assert.ok(sites.every(s => s.Loops.length == 0));
+    assert.deepStrictEqual(callSites(main.ID, functions, callees, () => loops),
+      []);
+  });
+
+  test('Enclosing loops are ordered from the outermost one', () => {
+    // Location of the statement in the body of the second loop nest.
+    let loc = Object.assign({}, loops[3].StartLocation, { Line: 20 });
+    assert.deepStrictEqual(enclosingLoops(loops, loc).map(l => l.ID), [4, 5]);
+    assert.deepStrictEqual(
+      enclosingLoops(loops, loops[0].StartLocation).map(l => l.ID), [2]);
+  });
+});
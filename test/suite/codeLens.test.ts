@@ -0,0 +1,64 @@
+//===--- codeLens.test.ts --------- Code Lens Tests --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check actions shown above functions and loops.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LoopTreeProvider, LoopTreeProviderState } from '../../src/loopTree';
+import { Session, startSession, stopSession, waitFor } from './helpers';
+
+suite('Code lenses', () => {
+  let session: Session;
+
+  suiteSetup(async () => {
+    session = await startSession('loops', 'loops.c');
+    let state = session.project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    await waitFor(() => state.functions() !== undefined);
+    await vscode.commands.executeCommand('tsar.loop.tree',
+      session.uri.with({ query: JSON.stringify({ ID: 2 }) }));
+    let main = state.functions().find(f => f.ID == 2);
+    await waitFor(() => main.Loops.length > 0);
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  async function lenses(): Promise<vscode.CodeLens[]> {
+    return vscode.commands.executeCommand<vscode.CodeLens[]>(
+      'vscode.executeCodeLensProvider', session.uri);
+  }
+
+  test('Parallelism is shown above functions and loops', async () => {
+    let titles = (await lenses()).filter(l => l.range.start.line == 17)
+      .map(l => l.command.title);
+    assert.ok(titles.indexOf('Parallel ✗') >= 0, titles.join(', '));
+    titles = (await lenses()).filter(l => l.range.start.line == 6)
+      .map(l => l.command.title);
+    assert.ok(titles.indexOf('Parallel ✓') >= 0, titles.join(', '));
+  });
+
+  test('Alias tree is available for a loop', async () => {
+    let lens = (await lenses()).find(l => l.range.start.line == 17 &&
+      l.command.command === 'tsar.loop.alias');
+    assert.ok(lens);
+    let query = JSON.parse((lens.command.arguments[0] as vscode.Uri).query);
+    assert.deepStrictEqual(query, { FuncID: 2, LoopID: 4 });
+  });
+
+  test('Call graph is available for a function', async () => {
+    let lens = (await lenses()).find(l => l.range.start.line == 13 &&
+      l.command.command === 'tsar.callee.func');
+    assert.ok(lens);
+    let query = JSON.parse((lens.command.arguments[0] as vscode.Uri).query);
+    assert.deepStrictEqual(query, { FuncID: 2, LoopID: 0, Attr: [] });
+  });
+});
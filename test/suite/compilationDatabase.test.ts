@@ -0,0 +1,51 @@
+//===- compilationDatabase.test.ts - Compilation Database --- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that flags of compilation commands are
+// forwarded to the analysis server.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCompilationDatabase,
+  preprocessorFlags } from '../../src/compilationDatabase';
+
+suite('Compilation database', () => {
+  let dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsar-db-'));
+  let db = path.join(dir, 'compile_commands.json');
+  fs.writeFileSync(db, JSON.stringify([
+    {
+      directory: dir,
+      file: 'main.c',
+      command: 'cc -c -Iinclude -D N=10 -include config.h ' +
+        '-include-pch main.pch -o main.o main.c'
+    },
+    {
+      directory: path.join(dir, 'lib'),
+      file: 'lib.c',
+      arguments: ['cc', '-c', '-isystem', 'sys', '-DN=10', '-UDEBUG', 'lib.c']
+    }
+  ]));
+  let commands = parseCompilationDatabase(db);
+
+  test('Only exact path options are resolved', () => {
+    assert.deepStrictEqual(commands[0].Arguments, [
+      `-I${path.join(dir, 'include')}`, '-DN=10',
+      '-include', path.join(dir, 'config.h'), '-include-pch', 'main.pch'
+    ]);
+  });
+
+  test('Preprocessor flags of all sources are merged', () => {
+    assert.deepStrictEqual(preprocessorFlags(commands), [
+      `-I${path.join(dir, 'include')}`, '-DN=10',
+      '-include', path.join(dir, 'config.h'),
+      `-isystem${path.join(dir, 'lib', 'sys')}`, '-UDEBUG'
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+//===--- diagnostics.test.ts -------- Problems Tests -------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that diagnostics received from the server
+// are published to the Problems panel.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseDiagnostics } from '../../src/diagnostics';
+import { Session, startSession, stopSession, waitFor } from './helpers';
+
+suite('Clang-style diagnostics', () => {
+  let base = path.resolve('/project');
+  let fallback = vscode.Uri.file(path.join(base, 'main.c'));
+
+  test('Location and severity are parsed', () => {
+    let diags = parseDiagnostics(
+      "src/a.c:3:10: error: use of undeclared identifier 'y'\n" +
+      "src/a.c:2:7: warning: unused variable 'x'", base, fallback);
+    let list = diags.get(vscode.Uri.file(path.join(base, 'src', 'a.c')).toString());
+    assert.strictEqual(list.length, 2);
+    assert.strictEqual(list[0].severity, vscode.DiagnosticSeverity.Error);
+    assert.ok(list[0].range.start.isEqual(new vscode.Position(2, 9)));
+    assert.strictEqual(list[1].severity, vscode.DiagnosticSeverity.Warning);
+    assert.strictEqual(list[1].message, "unused variable 'x'");
+  });
+
+  test('Range is extended according to caret line', () => {
+    let diags = parseDiagnostics(
+      "a.c:1:5: error: expected expression\n  foo(bar);\n    ^~~~", base,
+      fallback);
+    let diag = diags.get(vscode.Uri.file(path.join(base, 'a.c')).toString())[0];
+    assert.strictEqual(diag.range.end.character - diag.range.start.character, 4);
+  });
+
+  test('Notes are attached to the previous diagnostic', () => {
+    let diags = parseDiagnostics(
+      "a.c:4:3: error: redefinition of 'x'\n" +
+      "a.c:2:3: note: previous definition is here", base, fallback);
+    let list = diags.get(vscode.Uri.file(path.join(base, 'a.c')).toString());
+    assert.strictEqual(list.length, 1);
+    assert.strictEqual(list[0].relatedInformation.length, 1);
+  });
+
+  test('Diagnostics without location are attached to the project', () => {
+    let diags = parseDiagnostics(
+      'error: unable to find compiler', base, fallback);
+    assert.strictEqual(diags.get(fallback.toString())[0].message,
+      'unable to find compiler');
+  });
+});
+
+suite('Problems panel', () => {
+  let session: Session;
+
+  suiteSetup(async () => {
+    session = await startSession('errors', 'errors.c');
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  test('Errors and warnings are published', async () => {
+    await waitFor(() => vscode.languages.getDiagnostics(session.uri).length > 0);
+    let diags = vscode.languages.getDiagnostics(session.uri);
+    assert.strictEqual(diags.length, 2);
+    assert.ok(diags.some(d => d.severity == vscode.DiagnosticSeverity.Warning &&
+      d.range.start.line == 1));
+  });
+
+  test('Problems are cleared when session is closed', async () => {
+    let uri = session.uri;
+    await stopSession(session);
+    session = undefined;
+    assert.strictEqual(vscode.languages.getDiagnostics(uri).length, 0);
+  });
+});
@@ -0,0 +1,116 @@
+//===--- extension.test.ts -------- Extension Tests --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains end-to-end tests which drive project content providers
+// with a help of the mock analysis server.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as msg from '../../src/messages';
+import { AliasTreeProvider } from '../../src/aliasTree';
+import { CalleeFuncProvider, CalleeFuncProviderState } from '../../src/calleeFunc';
+import { FileListProvider, FileListProviderState } from '../../src/fileList';
+import { ProjectProvider } from '../../src/general';
+import { LoopTreeProvider, LoopTreeProviderState } from '../../src/loopTree';
+import { ProjectWebviewProviderState,
+  ProjectWebviewProvider } from '../../src/webviewProvider';
+import { Session, startSession, stopSession, waitFor } from './helpers';
+
+suite('Analysis session with mock server', () => {
+  let session: Session;
+
+  suiteSetup(async () => {
+    session = await startSession('loops', 'loops.c');
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  function query(uri: vscode.Uri, q: any): vscode.Uri {
+    return uri.with({ query: JSON.stringify(q) });
+  }
+
+  test('File list is received on start', async () => {
+    let state = session.project.providerState(
+      FileListProvider.scheme) as FileListProviderState;
+    await waitFor(() => state.actual(new msg.FileList));
+    assert.strictEqual(state.getFile([1, 0]).Name, 'loops.c');
+  });
+
+  test('Function list is received on start', async () => {
+    let state = session.project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    await waitFor(() => state.functions() !== undefined);
+    let names = state.functions().map(f => f.Name);
+    assert.deepStrictEqual(names, ['sum', 'main', 'printf']);
+  });
+
+  test('Loop tree is added to a function', async () => {
+    let state = session.project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    await waitFor(() => state.functions() !== undefined);
+    await vscode.commands.executeCommand('tsar.loop.tree',
+      query(session.uri, { ID: 2 }));
+    let main = state.functions().find(f => f.ID == 2);
+    await waitFor(() => main.Loops.length > 0);
+    assert.deepStrictEqual(main.Loops.map(l => l.Level), [1, 2, 1, 2]);
+    assert.strictEqual(main.Loops[2].Traits.Parallel, 'No');
+  });
+
+  test('Alias tree is built for a loop', async () => {
+    let state = session.project.providerState(AliasTreeProvider.scheme) as
+      ProjectWebviewProviderState<ProjectWebviewProvider>;
+    await vscode.commands.executeCommand('tsar.loop.alias',
+      query(session.uri, { FuncID: 2, LoopID: 4 }));
+    await waitFor(() => state.data !== undefined &&
+      state.data.AliasTree !== undefined);
+    let tree: msg.AliasTree = state.data.AliasTree;
+    assert.strictEqual(tree.LoopID, 4);
+    assert.ok(tree.Nodes.some(n => n.Traits.indexOf('flow') >= 0));
+  });
+
+  test('Call graph is built for a function', async () => {
+    let state = session.project.providerState(
+      CalleeFuncProvider.scheme) as CalleeFuncProviderState;
+    await vscode.commands.executeCommand('tsar.callee.func',
+      query(session.uri, { FuncID: 2, Attr: [] }));
+    await waitFor(() => state.data !== undefined && state.data.Complete);
+    let callers = Array.from(state.data.CallGraph.keys()).map(
+      (f: msg.Function) => f.Name);
+    assert.deepStrictEqual(callers.sort(), ['main', 'printf', 'sum']);
+  });
+
+  test('Response is correlated with request', async () => {
+    let request = new msg.LoopTree;
+    request.FunctionID = 1;
+    let looptree = await session.project.send<msg.LoopTree>(
+      request, { notify: false });
+    assert.ok(looptree instanceof msg.LoopTree);
+    assert.strictEqual(looptree.FunctionID, 1);
+    assert.strictEqual(looptree.Loops.length, 1);
+  });
+
+  test('Rejected request is reported', async () => {
+    let request = new msg.AliasTree;
+    request.FuncID = 1;
+    request.LoopID = 42;
+    await assert.rejects(session.project.send(request, { notify: false }),
+      /rejected/);
+  });
+
+  test('Statistic is shown', async () => {
+    let state = session.project.providerState(ProjectProvider.scheme) as
+      ProjectWebviewProviderState<ProjectWebviewProvider>;
+    await vscode.commands.executeCommand('tsar.statistic', session.uri);
+    await waitFor(() => state.data instanceof msg.Statistic);
+    assert.strictEqual(state.data.ParallelLoops, 4);
+    assert.strictEqual(state.data.Loops[msg.Analysis.Yes], 5);
+  });
+});
@@ -0,0 +1,78 @@
+//===--- graphExport.test.ts ------ Graph Export Tests ------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that alias trees and call graphs are
+// converted to Graphviz DOT and to JSON.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import { CallGraphData } from '../../src/calleeFunc';
+import { aliasTreeToDot, aliasTreeToJSON, callGraphToDot,
+  callGraphToJSON } from '../../src/graphExport';
+import * as msg from '../../src/messages';
+import { loadFixture } from './helpers';
+
+suite('Export of graphs', () => {
+  let fixture = loadFixture('loops');
+  let file = fixture.file('loops.c');
+  let resolve = (loc: msg.Location) =>
+    ({ Path: file, Line: loc.Line, Column: loc.Column });
+  let tree = fixture.aliasTree(2, 4);
+
+  /**
+   * Return call graph for the 'main' function as it is built by the call
+   * graph provider.
+   */
+  function callGraph(): CallGraphData {
+    let functions = new Map(fixture.functions.map(
+      f => [f.ID, f] as [number, msg.Function]));
+    let graph = new Map<msg.Function|msg.Loop, msg.CalleeFuncInfo[]>();
+    fixture.callees.forEach(
+      (callees, id) => graph.set(functions.get(id), callees));
+    return {
+      Target: { FuncID: 2, LoopID: 0, Attr: [] },
+      Complete: true,
+      Functions: functions,
+      CallGraph: graph
+    };
+  }
+
+  test('Alias tree is converted to DOT', () => {
+    let dot = aliasTreeToDot(tree);
+    assert.ok(dot.startsWith('digraph "alias tree 2:4" {'));
+    assert.ok(dot.indexOf('n0 [label="Top", fillcolor=floralwhite') >= 0);
+    let b = tree.Nodes.find(
+      n => n.SelfMemory.some(m => m.Object && m.Object.Name == 'B'));
+    assert.ok(new RegExp(`n${b.ID} \\[label="[^"]*", fillcolor=lightcoral`)
+      .test(dot));
+    for (let e of tree.Edges)
+      assert.ok(dot.indexOf(`n${e.From} -> n${e.To}`) >= 0);
+  });
+
+  test('Alias tree is converted to JSON with resolved locations', () => {
+    let json = aliasTreeToJSON(tree, resolve);
+    let memory = json.Nodes.find((n: any) => n.SelfMemory.length > 0)
+      .SelfMemory[0];
+    assert.strictEqual(memory.Locations[0].Path, file);
+    assert.strictEqual(memory.Object.DeclLocation.Path, file);
+    assert.strictEqual(json.Edges.length, tree.Edges.length);
+  });
+
+  test('Call graph is converted to DOT and JSON', () => {
+    let graph = callGraph();
+    let dot = callGraphToDot(graph);
+    assert.ok(dot.indexOf('"2" [label="main", fillcolor=darkorange]') >= 0);
+    assert.ok(dot.indexOf('"3" [label="printf", fillcolor=lightgrey]') >= 0);
+    assert.ok(dot.indexOf('"2" -> "1" [label=2]') >= 0);
+    let json = callGraphToJSON(graph, resolve);
+    let main = json.CallGraph.find((c: any) => c.ID == '2');
+    assert.deepStrictEqual(main.Callees.map((c: any) => c.Name),
+      ['sum', 'printf']);
+    assert.deepStrictEqual(main.Callees[0].Locations[0],
+      { Path: file, Line: 21, Column: 18 });
+  });
+});
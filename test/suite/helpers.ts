@@ -0,0 +1,206 @@
+//===--- helpers.ts ------------- Test Helpers -------------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains helpful functions to run analysis sessions with a mock
+// analysis server in extension tests and to access responses of the mock
+// server in tests which do not need a session.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as log from '../../src/log';
+import * as msg from '../../src/messages';
+import { Project, ProjectEngine } from '../../src/project';
+import { ProjectConfig, saveProjectConfig } from '../../src/projectConfig';
+
+/**
+ * Root directory of test fixtures.
+ */
+export const fixtures = path.resolve(__dirname, '..', '..', '..', 'test', 'fixtures');
+
+/**
+ * Path to the compiled mock analysis server.
+ */
+const mockServer = path.resolve(__dirname, '..', 'mock', 'tsarServer.js');
+
+/**
+ * Description of an active analysis session.
+ */
+export interface Session {
+  engine: ProjectEngine;
+  project: Project;
+  uri: vscode.Uri;
+}
+
+/**
+ * Responses of the mock analysis server which are stored in a scenario of
+ * a fixture (see test/mock/tsarServer.ts).
+ */
+export interface Scenario {
+  FunctionList?: msg.FunctionList;
+  LoopTree?: msg.LoopTree[];
+  AliasTree?: msg.AliasTree[];
+  CalleeFuncList?: msg.CalleeFuncList[];
+  Transformation?: { [name: string]: string };
+}
+
+/**
+ * Responses from a scenario of a fixture which are prepared in the same way
+ * as the extension prepares them, so they can be checked without a session.
+ */
+export interface Fixture {
+  scenario: Scenario;
+
+  /**
+   * Functions with attached loops.
+   */
+  functions: msg.Function[];
+
+  /**
+   * Callees of functions, kinds of statements are converted from names to
+   * values of msg.StatementKind.
+   */
+  callees: Map<number, msg.CalleeFuncInfo[]>;
+
+  /**
+   * Return function with a specified name.
+   */
+  func(name: string): msg.Function|undefined;
+
+  /**
+   * Return alias tree of a specified loop.
+   */
+  aliasTree(funcID: number, loopID: number): msg.AliasTree|undefined;
+
+  /**
+   * Return path to a file of the fixture.
+   */
+  file(name: string): string;
+}
+
+/**
+ * Load responses from a scenario of a specified fixture. The scenario is
+ * parsed on each call, so tests may modify responses.
+ */
+export function loadFixture(fixture: string): Fixture {
+  let scenario: Scenario = JSON.parse(fs.readFileSync(
+    path.join(fixtures, fixture, 'scenario.json'), 'utf8'));
+  let functions = scenario.FunctionList ? scenario.FunctionList.Functions : [];
+  for (let f of functions) {
+    let looptree = (scenario.LoopTree || []).find(t => t.FunctionID == f.ID);
+    f.Loops = looptree !== undefined ? looptree.Loops : [];
+  }
+  let callees = new Map<number, msg.CalleeFuncInfo[]>();
+  for (let list of scenario.CalleeFuncList || [])
+    callees.set(list.FuncID, list.Functions.map(
+      (c: any) => Object.assign({}, c, { Kind: msg.StatementKind[c.Kind] })));
+  return {
+    scenario,
+    functions,
+    callees,
+    func: name => functions.find(f => f.Name == name),
+    aliasTree: (funcID, loopID) => (scenario.AliasTree || []).find(
+      t => t.FuncID == funcID && t.LoopID == loopID),
+    file: name => path.join(fixtures, fixture, name)
+  };
+}
+
+/**
+ * Wait until a specified condition is satisfied, reject on timeout.
+ */
+export function waitFor(condition: () => boolean, timeout = 10000):
+    Promise<void> {
+  return new Promise((resolve, reject) => {
+    let start = Date.now();
+    let check = () => {
+      if (condition())
+        return resolve();
+      if (Date.now() - start > timeout)
+        return reject(new Error('timeout exceeded'));
+      setTimeout(check, 50);
+    };
+    check();
+  });
+}
+
+/**
+ * Create executable script which runs the mock analysis server with
+ * a specified scenario and return path to this script.
+ *
+ * Environment of the analysis server is configured by the extension, so
+ * the script sets variables which are necessary to run Electron as Node.js.
+ */
+function createLauncher(dir: string, scenario: string,
+    serverArgs: string[]): string {
+  let args = ['--scenario', scenario].concat(serverArgs)
+    .map(arg => `"${arg}"`).join(' ');
+  if (process.platform.match(/^win/i)) {
+    let launcher = path.join(dir, 'tsar-server.cmd');
+    fs.writeFileSync(launcher, '@echo off\r\n' +
+      'set ELECTRON_RUN_AS_NODE=1\r\n' +
+      `"${process.execPath}" "${mockServer}" ${args} %*\r\n`);
+    return launcher;
+  }
+  let launcher = path.join(dir, 'tsar-server');
+  fs.writeFileSync(launcher, '#!/bin/sh\n' +
+    `ELECTRON_RUN_AS_NODE=1 exec "${process.execPath}" "${mockServer}" ` +
+    `${args} "$@"\n`, { mode: 0o755 });
+  return launcher;
+}
+
+/**
+ * Copy sources of a specified fixture to a temporary directory and configure
+ * project to use the mock analysis server, return the temporary directory.
+ *
+ * @param config Additional project configuration.
+ * @param serverArgs Additional options for the mock server.
+ */
+export function prepareProject(fixture: string, config: ProjectConfig = {},
+    serverArgs: string[] = []): string {
+  let dir = fs.mkdtempSync(path.join(os.tmpdir(), `tsar-${fixture}-`));
+  let fixtureDir = path.join(fixtures, fixture);
+  for (let file of fs.readdirSync(fixtureDir))
+    if (file !== 'scenario.json')
+      fs.copyFileSync(path.join(fixtureDir, file), path.join(dir, file));
+  let prjDir = path.join(dir, log.Project.directory);
+  fs.mkdirSync(prjDir);
+  saveProjectConfig(prjDir, Object.assign({
+    Options: [],
+    AnalysisServer:
+      createLauncher(dir, path.join(fixtureDir, 'scenario.json'), serverArgs)
+  }, config));
+  return dir;
+}
+
+/**
+ * Copy sources of a specified fixture to a temporary directory, configure
+ * project to use the mock analysis server and start analysis session.
+ *
+ * @param source Name of a file in the fixture to analyze.
+ * @param config Additional project configuration.
+ * @param serverArgs Additional options for the mock server.
+ */
+export async function startSession(fixture: string, source: string,
+    config: ProjectConfig = {}, serverArgs: string[] = []): Promise<Session> {
+  let dir = prepareProject(fixture, config, serverArgs);
+  let uri = vscode.Uri.file(path.join(dir, source));
+  await vscode.commands.executeCommand('tsar.start', uri);
+  let engine: ProjectEngine =
+    vscode.extensions.getExtension(`DVM.${log.Extension.id}`).exports;
+  await waitFor(() => engine.project(uri) !== undefined);
+  return { engine, project: engine.project(uri), uri };
+}
+
+/**
+ * Close a specified analysis session.
+ */
+export async function stopSession(session: Session) {
+  await vscode.commands.executeCommand('tsar.stop', session.uri);
+  await waitFor(() => !session.engine.isActive(session.uri));
+}
@@ -0,0 +1,61 @@
+//===--- history.test.ts --- Transformation History Tests --- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that sources are stored in the history
+// before they are changed by transformations.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HistoryEntry } from '../../src/history';
+import * as log from '../../src/log';
+import { TransformationPreview } from '../../src/preview';
+import { fixtures, prepareProject, waitFor } from './helpers';
+
+suite('Transformation history', () => {
+  let original = fs.readFileSync(path.join(fixtures, 'inline', 'inline.c'),
+    'utf8');
+
+  function entries(dir: string): string[] {
+    let history = path.join(dir, log.Project.directory, log.Project.history);
+    return fs.existsSync(history)
+      ? fs.readdirSync(history).map(e => path.join(history, e)) : [];
+  }
+
+  test('Applied transformation is stored', async () => {
+    let dir = prepareProject('inline');
+    let file = path.join(dir, 'inline.c');
+    let done = vscode.commands.executeCommand('tsar.transform.inline',
+      vscode.Uri.file(file));
+    await waitFor(() => vscode.window.visibleTextEditors.some(
+      e => e.document.uri.scheme === TransformationPreview.scheme));
+    await vscode.commands.executeCommand('tsar.transform.apply');
+    await done;
+    let list = entries(dir);
+    assert.strictEqual(list.length, 1);
+    let entry: HistoryEntry = JSON.parse(fs.readFileSync(
+      path.join(list[0], log.Project.historyEntry), 'utf8'));
+    assert.strictEqual(entry.Query, '-clang-inline');
+    assert.deepStrictEqual(entry.Files, ['inline.c']);
+    assert.ok(entry.Args.indexOf(file) >= 0, entry.Args.join(' '));
+    assert.strictEqual(fs.readFileSync(
+      path.join(list[0], log.Project.snapshot, 'inline.c'), 'utf8'), original);
+  });
+
+  test('Discarded transformation is not stored', async () => {
+    let dir = prepareProject('inline');
+    let done = vscode.commands.executeCommand('tsar.transform.inline',
+      vscode.Uri.file(path.join(dir, 'inline.c')));
+    await waitFor(() => vscode.window.visibleTextEditors.some(
+      e => e.document.uri.scheme === TransformationPreview.scheme));
+    await vscode.commands.executeCommand('tsar.transform.discard');
+    await done;
+    assert.strictEqual(entries(dir).length, 0);
+  });
+});
@@ -0,0 +1,49 @@
+//===--- hover.test.ts ------------ Hover Tests ------------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check traits shown on hover in the source editor.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LoopTreeProvider, LoopTreeProviderState } from '../../src/loopTree';
+import { Session, startSession, stopSession, waitFor } from './helpers';
+
+suite('Hover', () => {
+  let session: Session;
+
+  suiteSetup(async () => {
+    session = await startSession('loops', 'loops.c');
+    let state = session.project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    await waitFor(() => state.functions() !== undefined);
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  async function hover(line: number, column: number): Promise<string> {
+    let hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+      'vscode.executeHoverProvider', session.uri,
+      new vscode.Position(line, column));
+    return hovers.map(h => h.contents.map(
+      c => (c as vscode.MarkdownString).value).join('\n')).join('\n');
+  }
+
+  test('Loop traits are shown for a loop header', async () => {
+    let text = await hover(17, 3);
+    assert.ok(text.indexOf('Parallel: No') >= 0, text);
+    assert.ok(text.indexOf('Canonical: Yes') >= 0, text);
+  });
+
+  test('Variable traits are shown for a variable in a loop', async () => {
+    let text = await hover(19, 6);
+    assert.ok(text.indexOf('flow (must, 1:1)') >= 0, text);
+  });
+});
@@ -0,0 +1,29 @@
+//===--- index.ts ------------ Test Suite Loader ------------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This is an entry point of extension tests which is loaded by VS Code.
+// It runs all *.test.js files in this directory with Mocha.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Mocha from 'mocha';
+
+export function run(): Promise<void> {
+  let mocha = new Mocha({ ui: 'tdd', color: true, timeout: 20000 });
+  for (let file of fs.readdirSync(__dirname))
+    if (file.endsWith('.test.js'))
+      mocha.addFile(path.resolve(__dirname, file));
+  return new Promise((resolve, reject) => {
+    mocha.run(failures => {
+      if (failures > 0)
+        reject(new Error(`${failures} tests failed.`));
+      else
+        resolve();
+    });
+  });
+}
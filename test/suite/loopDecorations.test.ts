@@ -0,0 +1,63 @@
+//===--- loopDecorations.test.ts ----- Decoration Tests ----- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check highlighting of loops in open editors.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { hasDependencies, LoopDecorationProvider,
+  LoopDecorationProviderState } from '../../src/loopDecorations';
+import * as msg from '../../src/messages';
+import { Session, startSession, stopSession, waitFor } from './helpers';
+
+suite('Loop decorations', () => {
+  let session: Session;
+  let state: LoopDecorationProviderState;
+
+  suiteSetup(async () => {
+    session = await startSession('loops', 'loops.c');
+    state = session.project.providerState(
+      LoopDecorationProvider.scheme) as LoopDecorationProviderState;
+    await vscode.window.showTextDocument(session.uri);
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  test('Parallel loops and loops with dependencies are highlighted',
+      async () => {
+    await waitFor(() => {
+      let lines = state.lines(session.uri.fsPath);
+      return lines !== undefined && lines.Dependence.length > 0;
+    });
+    let lines = state.lines(session.uri.fsPath);
+    assert.deepStrictEqual(lines.Parallel, [8, 14, 15, 18]);
+    assert.deepStrictEqual(lines.Dependence, [17]);
+  });
+
+  test('Decorations are switched off for a project', async () => {
+    await vscode.commands.executeCommand('tsar.loop.decorations', session.uri);
+    assert.strictEqual(state.enabled, false);
+    assert.strictEqual(state.lines(session.uri.fsPath), undefined);
+  });
+});
+
+suite('Dependencies of loops', () => {
+  test('Dependencies of memory locations are found', () => {
+    let tree = (memory: string, traits: any) => ({
+      Nodes: [{ Kind: 'Estimate', Traits: ['shared'], [memory]: [
+        { Address: 'B', Traits: traits }
+      ] }]
+    } as any as msg.AliasTree);
+    assert.ok(hasDependencies(tree('SelfMemory', { anti: {} })));
+    assert.ok(hasDependencies(tree('CoveredMemory', { output: {} })));
+    assert.ok(!hasDependencies(tree('CoveredMemory', { 'read only': {} })));
+  });
+});
@@ -0,0 +1,60 @@
+//===--- loopFilter.test.ts ------- Loop Filter Tests ------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that functions and loops are filtered by
+// names, files and traits.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import { escapeHtml } from '../../src/functions';
+import { isVisible, parseFilter } from '../../src/loopFilter';
+import * as msg from '../../src/messages';
+import { loadFixture } from './helpers';
+
+suite('Filter of functions and loops', () => {
+  let fixture = loadFixture('loops');
+  let file = fixture.file('loops.c');
+  let sum = fixture.func('sum');
+  let main = fixture.func('main');
+  let visibleLoops = (filter: string, f: msg.Function) =>
+    f.Loops.filter(l => isVisible(parseFilter(filter), f, file, l))
+      .map(l => l.ID);
+
+  test('Everything is visible without a filter', () => {
+    assert.ok(isVisible(undefined, sum, file));
+    assert.ok(isVisible(undefined, main, file, main.Loops[0]));
+    assert.deepStrictEqual(visibleLoops('', main), [2, 3, 4, 5]);
+  });
+
+  test('Functions are filtered by names and files', () => {
+    assert.ok(isVisible(parseFilter('SUM'), sum, file));
+    assert.ok(!isVisible(parseFilter('name:sum'), main, file));
+    assert.ok(isVisible(parseFilter('file:loops.c'), main, file));
+    assert.ok(!isVisible(parseFilter('file:other.c'), main, file));
+  });
+
+  test('Outer regions of matched loops remain visible', () => {
+    let filter = parseFilter('!parallel');
+    assert.ok(!isVisible(filter, sum, file));
+    assert.ok(isVisible(filter, main, file));
+    assert.deepStrictEqual(visibleLoops('!parallel', main), [4]);
+    assert.deepStrictEqual(visibleLoops('parallel depth=2', main),
+      [2, 3, 4, 5]);
+    assert.ok(!isVisible(parseFilter('parallel depth>1'), sum, file));
+  });
+
+  test('All conditions must be satisfied', () => {
+    assert.ok(isVisible(parseFilter('io exit=1'), main, file));
+    assert.ok(!isVisible(parseFilter('io readonly'), main, file));
+    assert.deepStrictEqual(visibleLoops('canonical !perfect', main), []);
+  });
+
+  test('Filter text is escaped before it is shown', () => {
+    assert.strictEqual(escapeHtml('name:<img src=x onerror="a&b">'),
+      'name:&lt;img src=x onerror=&quot;a&amp;b&quot;&gt;');
+  });
+});
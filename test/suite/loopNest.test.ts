@@ -0,0 +1,66 @@
+//===--- loopNest.test.ts --------- Loop Nest Tests --------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that loop nests are built and induction
+// variables and carried dependencies are attached to loops.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import { dependences, describeDistance, describeInduction,
+  loopNest } from '../../src/loopNest';
+import * as msg from '../../src/messages';
+import { loadFixture } from './helpers';
+
+suite('Loop nests', () => {
+  let fixture = loadFixture('loops');
+  let main = fixture.func('main');
+  let loops = main.Loops;
+  let trees = new Map(loops.map(
+    l => [l.ID, fixture.aliasTree(main.ID, l.ID)] as [number, msg.AliasTree]));
+
+  test('Loops are attached to enclosing loops', () => {
+    let nest = loopNest(loops, trees);
+    assert.deepStrictEqual(nest.map(l => [l.Loop.ID, l.Parent]),
+      [[2, undefined], [3, 2], [4, undefined], [5, 4]]);
+  });
+
+  test('Induction variables and dependencies are attached to loops', () => {
+    let nest = loopNest(loops, trees);
+    assert.deepStrictEqual(
+      nest.map(l => l.Inductions.map(describeInduction)),
+      [['I = 0:100:1'], [], ['I = 1:100:1'], []]);
+    // The dependence is carried by the outer loop of the second nest only.
+    assert.deepStrictEqual(nest.map(l => l.Dependences.map(
+      d => `${d.Kind} ${d.Name}: ${describeDistance(d)}`)),
+      [[], [], ['flow B: 1'], []]);
+    assert.strictEqual(nest[2].Dependences[0].May, false);
+  });
+
+  test('Unknown bounds of distance are described', () => {
+    let dep = { Kind: 'flow', Name: 'A', May: true, Locations: [] };
+    assert.strictEqual(describeDistance(dep), '?');
+    assert.strictEqual(describeDistance(Object.assign({ Min: '1' }, dep)),
+      '1:');
+    assert.strictEqual(
+      describeDistance(Object.assign({ Min: '1', Max: '3' }, dep)), '1:3');
+  });
+
+  test('Dependencies of parts of an object are merged', () => {
+    let memory = (traits: any) => ({ Address: 'A[0]', Object: { Name: 'A' },
+      Locations: [], Traits: { flow: traits } });
+    let tree = (...traits: any[]) => ({ Nodes: [{ Traits: [],
+      SelfMemory: traits.map(memory) }] } as any as msg.AliasTree);
+    let [dep] = dependences(tree({ May: true, Min: '2', Max: '3' },
+      { May: false, Min: '1', Max: '2' }, { May: true, Min: '2', Max: '5' }));
+    assert.strictEqual(dep.May, false);
+    assert.strictEqual(describeDistance(dep), '1:5');
+    [dep] = dependences(tree({ May: true, Min: '1', Max: '2' },
+      { May: true, Max: 'N' }));
+    assert.strictEqual(dep.May, true);
+    assert.strictEqual(describeDistance(dep), '?');
+  });
+});
@@ -0,0 +1,198 @@
+//===--- parallel.test.ts ------ Parallelization Tests ------ TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that options of parallelization are passed
+// to TSAR, that parallel programs are previewed before they are applied and
+// that directives are proposed for parallel loops.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HistoryEntry } from '../../src/history';
+import * as log from '../../src/log';
+import { insertDirective, loopClauses,
+  loopDirective } from '../../src/loopParallel';
+import { LoopTreeProvider, LoopTreeProviderState } from '../../src/loopTree';
+import * as msg from '../../src/messages';
+import { TransformationPreview } from '../../src/preview';
+import server from '../../src/tools';
+import { defaultOptions, knownOptions, loadSelectedOptions,
+  parallelizationOptions,
+  saveSelectedOptions } from '../../src/transformOptions';
+import { loadFixture, prepareProject, Session, startSession, stopSession,
+  waitFor } from './helpers';
+
+suite('Parallelization', () => {
+  test('DVMH options are added to the transformation option', async () => {
+    let dir = prepareProject('inline');
+    let done = vscode.commands.executeCommand('tsar.parallel.dvmh',
+      vscode.Uri.file(path.join(dir, 'inline.c')),
+      ['-finbounds-subscripts', '-fignore-redundant-memory=strict']);
+    await waitFor(() => vscode.window.visibleTextEditors.some(
+      e => e.document.uri.scheme === TransformationPreview.scheme));
+    await vscode.commands.executeCommand('tsar.transform.apply');
+    await done;
+    let history = path.join(dir, log.Project.directory, log.Project.history);
+    let entries = fs.readdirSync(history);
+    assert.strictEqual(entries.length, 1);
+    let entry: HistoryEntry = JSON.parse(fs.readFileSync(
+      path.join(history, entries[0], log.Project.historyEntry), 'utf8'));
+    assert.strictEqual(entry.Query, '-clang-experimental-apc-dvmh ' +
+      '-finbounds-subscripts -fignore-redundant-memory=strict');
+    assert.ok(entry.Args.indexOf('-finbounds-subscripts') >= 0,
+      entry.Args.join(' '));
+  });
+
+  test('Only options which TSAR supports are proposed', () => {
+    let targets = server.tools.find(t => t.name === 'tsar').options.map(
+      (o: any) => o.target);
+    for (let option of parallelizationOptions)
+      for (let value of option.values)
+        if (value.target)
+          assert.ok(targets.indexOf(option.target || value.target) >= 0,
+            `${option.target}${value.target}`);
+    assert.deepStrictEqual(knownOptions(parallelizationOptions,
+      ['-fdvmh-templates=auto', '-finbounds-subscripts',
+        '-fignore-redundant-memory=strict']),
+      ['-finbounds-subscripts', '-fignore-redundant-memory=strict']);
+    // Options which have been remembered by an earlier version are dropped.
+    assert.deepStrictEqual(knownOptions(parallelizationOptions,
+      ['-fopenmp-schedule=dynamic', '-no-format']), ['-no-format']);
+    assert.deepStrictEqual(defaultOptions(parallelizationOptions), []);
+  });
+
+  test('Selected options are remembered for a project', () => {
+    let prjDir = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'tsar-options-')),
+      log.Project.directory);
+    assert.deepStrictEqual(loadSelectedOptions(prjDir), {});
+    saveSelectedOptions(prjDir, 'tsar.parallel.openmp',
+      ['-finbounds-subscripts', '-fignore-redundant-memory=bounded']);
+    saveSelectedOptions(prjDir, 'tsar.parallel.dvmh',
+      ['-fno-external-calls']);
+    assert.deepStrictEqual(loadSelectedOptions(prjDir), {
+      'tsar.parallel.openmp':
+        ['-finbounds-subscripts', '-fignore-redundant-memory=bounded'],
+      'tsar.parallel.dvmh': ['-fno-external-calls']
+    });
+  });
+});
+
+suite('Parallelization of a loop', () => {
+  let fixture = loadFixture('loops');
+  let text = fs.readFileSync(fixture.file('loops.c'), 'utf8');
+  let loop = fixture.func('sum').Loops[0];
+  let tree = fixture.aliasTree(1, loop.ID);
+
+  test('Clauses are built according to traits of variables', () => {
+    assert.deepStrictEqual(loopClauses(tree, loop), {
+      Private: [], FirstPrivate: [], LastPrivate: [],
+      Reduction: { Add: ['S'] }, Unsupported: []
+    });
+  });
+
+  test('OpenMP directive is inserted before the loop', () => {
+    let directive = loopDirective('OpenMP', loopClauses(tree, loop));
+    assert.strictEqual(directive, '#pragma omp parallel for reduction(+:S)');
+    let lines = insertDirective(text, loop, 'OpenMP', directive).split('\n');
+    assert.strictEqual(lines[8], `  ${directive}`);
+    assert.strictEqual(lines[9], '  for (int I = 0; I < Size; ++I)');
+  });
+
+  test('Loop is enclosed in DVMH region', () => {
+    let directive = loopDirective('DVMH', loopClauses(tree, loop));
+    assert.strictEqual(directive, '#pragma dvm parallel(1) reduction(sum(S))');
+    let lines = insertDirective(text, loop, 'DVMH', directive).split('\n');
+    assert.deepStrictEqual(lines.slice(8, 14), [
+      '  #pragma dvm region',
+      '  {',
+      `  ${directive}`,
+      '  for (int I = 0; I < Size; ++I)',
+      '    S += V[I];',
+      '  }'
+    ]);
+  });
+
+  test('OpenMP directive lists all kinds of clauses', () => {
+    assert.strictEqual(loopDirective('OpenMP', {
+      Private: ['T'], FirstPrivate: [], LastPrivate: ['X'],
+      Reduction: { Add: ['S'], Max: ['M'] }, Unsupported: []
+    }), '#pragma omp parallel for private(T) lastprivate(X) ' +
+      'reduction(+:S) reduction(max:M)');
+  });
+
+  test('Last private variables are not supported in DVMH', () => {
+    assert.throws(() => loopDirective('DVMH', {
+      Private: [], FirstPrivate: [], LastPrivate: ['X'], Reduction: {},
+      Unsupported: []
+    }), /X are not supported in DVMH/);
+  });
+
+  test('Dynamic private variables are not mentioned in clauses', () => {
+    let dynamic = JSON.parse(JSON.stringify(tree)) as msg.AliasTree;
+    let s = dynamic.Nodes.find(n => (n.SelfMemory || []).some(
+      m => m.Object && m.Object.Name == 'S'));
+    s.Traits = ['dynamic private'];
+    s.SelfMemory.forEach(m => m.Traits = {});
+    let clauses = loopClauses(dynamic, loop);
+    assert.deepStrictEqual(clauses.LastPrivate, []);
+    assert.deepStrictEqual(clauses.Unsupported, ['S']);
+    assert.throws(() => loopDirective('OpenMP', clauses),
+      /S are not supported in OpenMP/);
+  });
+});
+
+suite('Quick fix for a parallel loop', () => {
+  let session: Session;
+  let directive = '#pragma omp parallel for reduction(+:S)';
+
+  suiteSetup(async () => {
+    session = await startSession('loops', 'loops.c');
+    let state = session.project.providerState(
+      LoopTreeProvider.scheme) as LoopTreeProviderState;
+    await waitFor(() => state.functions() !== undefined);
+    // Actions are proposed for loops which have been already received.
+    for (let f of state.functions())
+      await state.loops(session.project, f);
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  function codeActions(line: number): Thenable<vscode.CodeAction[]> {
+    return vscode.commands.executeCommand<vscode.CodeAction[]>(
+      'vscode.executeCodeActionProvider', session.uri,
+      new vscode.Range(line, 2, line, 2));
+  }
+
+  test('Directive is proposed at the header of a parallel loop', async () => {
+    let actions = await codeActions(8);
+    assert.deepStrictEqual(actions.map(a => a.title),
+      [log.Parallel.insert, log.Parallel.copy]);
+    assert.strictEqual(actions[1].command.command, 'tsar.loop.directive.copy');
+    assert.deepStrictEqual(JSON.parse(actions[1].command.arguments[0].query),
+      { FuncID: 1, LoopID: 1 });
+    let doc = await vscode.workspace.openTextDocument(session.uri);
+    await vscode.commands.executeCommand(actions[0].command.command,
+      ...actions[0].command.arguments);
+    assert.strictEqual(doc.lineAt(8).text, `  ${directive}`);
+    assert.strictEqual(doc.lineAt(9).text, '  for (int I = 0; I < Size; ++I)');
+    let revert = new vscode.WorkspaceEdit;
+    revert.delete(session.uri, new vscode.Range(8, 0, 9, 0));
+    await vscode.workspace.applyEdit(revert);
+  });
+
+  test('Directive is not proposed for a serial loop', async () => {
+    let actions = await codeActions(17);
+    assert.ok(actions.every(a => a.title !== log.Parallel.insert));
+  });
+});
@@ -0,0 +1,77 @@
+//===--- pipeline.test.ts -- Transformation Pipeline Tests -- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that a sequence of transformations runs in
+// a single analysis session.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HistoryEntry } from '../../src/history';
+import * as log from '../../src/log';
+import { TransformationPreview } from '../../src/preview';
+import { saveSelectedOptions } from '../../src/transformOptions';
+import { prepareProject, waitFor } from './helpers';
+
+suite('Transformation pipelines', () => {
+  test('Pipeline from the project configuration is executed', async () => {
+    let dir = prepareProject('inline', {
+      Pipelines: {
+        'Inline and rename': ['-clang-inline', 'tsar.transform.rename']
+      }
+    });
+    let done = vscode.commands.executeCommand('tsar.transform.pipeline',
+      vscode.Uri.file(path.join(dir, 'inline.c')), 'Inline and rename');
+    await waitFor(() => vscode.window.visibleTextEditors.some(
+      e => e.document.uri.scheme === TransformationPreview.scheme));
+    await vscode.commands.executeCommand('tsar.transform.apply');
+    await done;
+    let history = path.join(dir, log.Project.directory, log.Project.history);
+    let entries = fs.readdirSync(history);
+    assert.strictEqual(entries.length, 1);
+    let entry: HistoryEntry = JSON.parse(fs.readFileSync(
+      path.join(history, entries[0], log.Project.historyEntry), 'utf8'));
+    assert.strictEqual(entry.Title, 'Inline and rename');
+    assert.strictEqual(entry.Query, '-clang-inline -clang-rename');
+  });
+
+  test('Remembered options are used for a step with options', async () => {
+    let dir = prepareProject('inline', {
+      Pipelines: { 'DVMH': ['-clang-inline', 'tsar.parallel.dvmh'] }
+    });
+    saveSelectedOptions(path.join(dir, log.Project.directory),
+      'tsar.parallel.dvmh', ['-fno-external-calls', '-fdvmh-templates=auto']);
+    let done = vscode.commands.executeCommand('tsar.transform.pipeline',
+      vscode.Uri.file(path.join(dir, 'inline.c')), 'DVMH');
+    await waitFor(() => vscode.window.visibleTextEditors.some(
+      e => e.document.uri.scheme === TransformationPreview.scheme));
+    await vscode.commands.executeCommand('tsar.transform.apply');
+    await done;
+    let history = path.join(dir, log.Project.directory, log.Project.history);
+    let entries = fs.readdirSync(history);
+    assert.strictEqual(entries.length, 1);
+    let entry: HistoryEntry = JSON.parse(fs.readFileSync(
+      path.join(history, entries[0], log.Project.historyEntry), 'utf8'));
+    // Options which TSAR does not support are not passed.
+    assert.strictEqual(entry.Query,
+      '-clang-inline -clang-experimental-apc-dvmh -fno-external-calls');
+  });
+
+  test('Pipeline with unknown steps is not executed', async () => {
+    let dir = prepareProject('inline', {
+      Pipelines: { 'Misspelled': ['-clang-inline', '-clang-inlin'] }
+    });
+    await vscode.commands.executeCommand('tsar.transform.pipeline',
+      vscode.Uri.file(path.join(dir, 'inline.c')), 'Misspelled');
+    assert.ok(!vscode.window.visibleTextEditors.some(
+      e => e.document.uri.scheme === TransformationPreview.scheme));
+    assert.ok(!fs.existsSync(
+      path.join(dir, log.Project.directory, log.Project.history)));
+  });
+});
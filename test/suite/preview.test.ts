@@ -0,0 +1,121 @@
+//===--- preview.test.ts --- Transformation Preview Tests --- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that transformations are previewed before
+// they are applied to sources.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as log from '../../src/log';
+import { createScratchProject, removeScratchProject,
+  TransformationPreview } from '../../src/preview';
+import { loadProjectConfig } from '../../src/projectConfig';
+import { loadFixture, prepareProject, waitFor } from './helpers';
+
+suite('Transformation preview', () => {
+  let fixture = loadFixture('inline');
+  let original = fs.readFileSync(fixture.file('inline.c'), 'utf8');
+  let transformed = fixture.scenario.Transformation['inline.c'];
+
+  function isPreviewVisible(): boolean {
+    return vscode.window.visibleTextEditors.some(
+      e => e.document.uri.scheme === TransformationPreview.scheme);
+  }
+
+  async function runInline(): Promise<[string, Thenable<any>]> {
+    let file = path.join(prepareProject('inline'), 'inline.c');
+    let done = vscode.commands.executeCommand('tsar.transform.inline',
+      vscode.Uri.file(file));
+    await waitFor(isPreviewVisible);
+    return [file, done];
+  }
+
+  test('Sources are not changed until changes are applied', async () => {
+    let [file, done] = await runInline();
+    assert.strictEqual(fs.readFileSync(file, 'utf8'), original);
+    let preview = vscode.window.visibleTextEditors.find(
+      e => e.document.uri.scheme === TransformationPreview.scheme);
+    assert.strictEqual(preview.document.getText(), transformed);
+    await vscode.commands.executeCommand('tsar.transform.apply');
+    await done;
+    assert.strictEqual(fs.readFileSync(file, 'utf8'), transformed);
+    assert.ok(!fs.existsSync(path.join(path.dirname(file),
+      log.Project.directory, log.Project.preview)) ||
+      fs.readdirSync(path.join(path.dirname(file), log.Project.directory,
+        log.Project.preview)).length == 0);
+  });
+
+  test('Applied changes can be undone', async () => {
+    let [file, done] = await runInline();
+    await vscode.commands.executeCommand('tsar.transform.apply');
+    await done;
+    let doc = await vscode.workspace.openTextDocument(file);
+    await vscode.window.showTextDocument(doc);
+    await vscode.commands.executeCommand('undo');
+    assert.strictEqual(doc.getText(), original);
+  });
+
+  test('Discarded changes are not applied', async () => {
+    let [file, done] = await runInline();
+    await vscode.commands.executeCommand('tsar.transform.discard');
+    await done;
+    assert.strictEqual(fs.readFileSync(file, 'utf8'), original);
+    assert.ok(!isPreviewVisible());
+  });
+});
+
+suite('Scratch copy of a project', () => {
+  test('Headers from subdirectories are copied', () => {
+    let dir = prepareProject('inline', { IncludePaths: ['include'] });
+    fs.mkdirSync(path.join(dir, 'include'));
+    fs.writeFileSync(path.join(dir, 'include', 'twice.h'), '');
+    let scratch = createScratchProject(
+      vscode.Uri.file(path.join(dir, 'inline.c')));
+    try {
+      let copy = path.join(scratch.directory, 'include', 'twice.h');
+      assert.strictEqual(scratch.files.get(copy),
+        path.join(dir, 'include', 'twice.h'));
+      // The original directory is not searched for headers.
+      assert.deepStrictEqual(loadProjectConfig(path.join(scratch.directory,
+        log.Project.directory)).IncludePaths,
+        [path.join(scratch.directory, 'include')]);
+    }
+    finally {
+      removeScratchProject(scratch);
+    }
+  });
+
+  test('Sources are redirected to the scratch directory', () => {
+    let dir = prepareProject('inline', { Sources: ['inline.c'] });
+    let scratch = createScratchProject(
+      vscode.Uri.file(path.join(dir, 'inline.c')));
+    try {
+      assert.deepStrictEqual(loadProjectConfig(path.join(scratch.directory,
+        log.Project.directory)).Sources,
+        [path.join(scratch.directory, 'inline.c')]);
+    }
+    finally {
+      removeScratchProject(scratch);
+    }
+  });
+
+  test('Headers outside the project directory are not previewed', () => {
+    let dir = prepareProject('inline');
+    let outside = fs.mkdtempSync(path.join(path.dirname(dir), 'tsar-inc-'));
+    fs.writeFileSync(path.join(outside, 'twice.h'), '');
+    let uri = vscode.Uri.file(path.join(dir, 'inline.c'));
+    fs.writeFileSync(uri.fsPath, `#include "../${path.basename(outside)}` +
+      `/twice.h"\n${fs.readFileSync(uri.fsPath, 'utf8')}`);
+    assert.strictEqual(createScratchProject(uri), undefined);
+    let other = prepareProject('inline', { IncludePaths: [outside] });
+    assert.strictEqual(createScratchProject(
+      vscode.Uri.file(path.join(other, 'inline.c'))), undefined);
+  });
+});
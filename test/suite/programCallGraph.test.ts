@@ -0,0 +1,48 @@
+//===--- programCallGraph.test.ts ---- Call Graph Tests ----- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check construction of the call graph of the whole
+// program and search of recursive calls.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as msg from '../../src/messages';
+import { callEdges, recursiveEdges } from '../../src/programCallGraph';
+import { loadFixture } from './helpers';
+
+suite('Call graph of the whole program', () => {
+  let fixture = loadFixture('loops');
+  let location = fixture.func('sum').StartLocation;
+  let call = (CalleeID: number, count = 1): msg.CalleeFuncInfo => ({
+    Kind: msg.StatementKind.Call,
+    CalleeID,
+    StartLocation: new Array(count).fill(location)
+  });
+
+  test('Calls are collected from callees of all functions', () => {
+    let calls = fixture.callees;
+    assert.deepStrictEqual(callEdges(calls), [
+      { From: 2, To: 1, Count: 2 },
+      { From: 2, To: 3, Count: 1 }
+    ]);
+    assert.deepStrictEqual(recursiveEdges(callEdges(calls)), []);
+  });
+
+  test('Recursive calls are found', () => {
+    let calls = new Map<number, msg.CalleeFuncInfo[]>([
+      [1, [call(2), { Kind: msg.StatementKind.Return, CalleeID: 0,
+        StartLocation: [] }]],
+      [2, [call(3), call(4)]],
+      [3, [call(1), call(3, 2)]],
+      [4, [call(5)]]
+    ]);
+    let edges = callEdges(calls);
+    assert.strictEqual(edges.length, 6);
+    assert.deepStrictEqual(recursiveEdges(edges).map(e => [e.From, e.To]),
+      [[1, 2], [2, 3], [3, 1], [3, 3]]);
+  });
+});
@@ -0,0 +1,235 @@
+//===--- protocol.test.ts --------- Protocol Tests ---------- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests for framing of messages, for negotiation of
+// the protocol version and for cancellation and timeout of requests.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as log from '../../src/log';
+import * as msg from '../../src/messages';
+import { FileListProvider, FileListProviderState } from '../../src/fileList';
+import { ProjectEngine } from '../../src/project';
+import { DelimiterFraming, LengthPrefixFraming, negotiate,
+  ProtocolVersion } from '../../src/protocol';
+import server from '../../src/tools';
+import { prepareProject, Session, startSession, stopSession,
+  waitFor } from './helpers';
+
+suite('Message framing', () => {
+  test('Length-prefixed message may contain delimiter', () => {
+    let framing = new LengthPrefixFraming;
+    let message = JSON.stringify({ Name: `a${log.Project.delimiter}b` });
+    assert.deepStrictEqual(framing.decode(framing.encode(message)), [message]);
+  });
+
+  test('Message split into chunks is assembled', () => {
+    let framing = new LengthPrefixFraming;
+    let messages = ['{"Name":"функция"}', '{"ID":1}'];
+    let data = Buffer.concat(messages.map(m => framing.encode(m)));
+    let received: string[] = [];
+    // Split data into single bytes to break prefixes and multi-byte
+    // characters.
+    for (let i = 0; i < data.length; ++i)
+      received.push(...framing.decode(data.slice(i, i + 1)));
+    assert.deepStrictEqual(received, messages);
+  });
+
+  test('Legacy messages are separated with delimiter', () => {
+    let framing = new DelimiterFraming;
+    let data = Buffer.concat([framing.encode('{"ID":1}'),
+      Buffer.from('{"ID"')]);
+    assert.deepStrictEqual(framing.decode(data), ['{"ID":1}']);
+    assert.deepStrictEqual(framing.decode(':2}' + log.Project.delimiter),
+      ['{"ID":2}']);
+  });
+
+  test('Unprocessed data is available to switch protocol', () => {
+    let legacy = new DelimiterFraming;
+    let framing = new LengthPrefixFraming;
+    let data = Buffer.concat(
+      [legacy.encode('{"ID":1}'), framing.encode('{"ID":2}')]);
+    assert.strictEqual(legacy.decode(data.slice(0, 9))[0], '{"ID":1}');
+    framing.push(legacy.remainder());
+    assert.deepStrictEqual(framing.decode(data.slice(9)), ['{"ID":2}']);
+  });
+});
+
+suite('Protocol negotiation', () => {
+  test('Legacy protocol is used for servers without versions', () => {
+    assert.strictEqual(negotiate(), ProtocolVersion.Delimiter);
+  });
+
+  test('The most preferable common version is selected', () => {
+    assert.strictEqual(negotiate([1, 2]), ProtocolVersion.LengthPrefix);
+    assert.strictEqual(negotiate([1, 3]), ProtocolVersion.Delimiter);
+  });
+
+  test('Unsupported versions are reported', () => {
+    assert.throws(() => negotiate([3]), /unsupported version of protocol 3/);
+  });
+});
+
+suite('Analysis session with legacy server', () => {
+  let session: Session;
+
+  suiteSetup(async () => {
+    session = await startSession('loops', 'loops.c', {}, ['--protocol', '1']);
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  test('File list is received with legacy protocol', async () => {
+    let state = session.project.providerState(
+      FileListProvider.scheme) as FileListProviderState;
+    await waitFor(() => state.actual(new msg.FileList));
+    assert.strictEqual(state.getFile([1, 0]).Name, 'loops.c');
+  });
+
+  test('Responses are correlated with requests without identifiers',
+      async () => {
+    let requests = [1, 2].map(id => {
+      let request = new msg.LoopTree;
+      request.FunctionID = id;
+      return session.project.send<msg.LoopTree>(request, { notify: false });
+    });
+    let responses = await Promise.all(requests);
+    assert.deepStrictEqual(responses.map(r => r.FunctionID), [1, 2]);
+  });
+
+  test('Rejection is correlated with the oldest request', async () => {
+    let request = new msg.AliasTree;
+    request.FuncID = 1;
+    request.LoopID = 42;
+    await assert.rejects(
+      session.project.send<msg.AliasTree>(request, { notify: false }),
+      /has been rejected/);
+    assert.ok(session.engine.isActive(session.uri));
+  });
+});
+
+suite('Cancellation of requests', () => {
+  let session: Session;
+
+  suiteSetup(async () => {
+    // Start session without analysis, so the test controls all requests.
+    let dir = prepareProject('loops', {}, ['--delay', '5000']);
+    let uri = vscode.Uri.file(path.join(dir, 'loops.c'));
+    let engine: ProjectEngine =
+      vscode.extensions.getExtension(`DVM.${log.Extension.id}`).exports;
+    let project = await engine.start(
+      await vscode.workspace.openTextDocument(uri),
+      server.tools.find(t => t.name === 'tsar'));
+    session = { engine, project, uri };
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  test('Cancelled request does not close the session', async () => {
+    let cl = new msg.CommandLine(log.Extension.displayName);
+    cl.Args.push(session.uri.fsPath);
+    let request = session.project.send<msg.Diagnostic>(cl, { timeout: 0 });
+    assert.ok(session.project.cancel());
+    await assert.rejects(request, /has been cancelled/);
+    assert.ok(session.engine.isActive(session.uri));
+    let response = await session.project.send<msg.FileList>(
+      new msg.FileList, { notify: false });
+    assert.strictEqual(response.Files[0].Name, 'loops.c');
+  });
+
+  test('Late answer to a cancelled request is ignored', async () => {
+    let commandLine = () => {
+      let cl = new msg.CommandLine(log.Extension.displayName);
+      cl.Args.push(session.uri.fsPath);
+      return cl;
+    };
+    // Identifiers of cancelled requests are forgotten when answers arrive.
+    let cancelled: Set<number> = session.project['_cancelled'];
+    let first = session.project.send<msg.Diagnostic>(commandLine(),
+      { timeout: 0 });
+    assert.ok(session.project.cancel());
+    await assert.rejects(first, /has been cancelled/);
+    let isSettled = false;
+    let second = session.project.send<msg.Diagnostic>(commandLine(),
+      { timeout: 0 });
+    second.then(() => isSettled = true, () => isSettled = true);
+    await waitFor(() => cancelled.size == 0);
+    // The answer to the first request must not be taken for the answer to
+    // the second one which is still processed by the server.
+    assert.ok(!isSettled);
+    assert.ok(session.project.cancel());
+    await assert.rejects(second, /has been cancelled/);
+    await waitFor(() => cancelled.size == 0);
+    assert.ok(session.engine.isActive(session.uri));
+  });
+
+  test('Rejection is correlated with request by identifier', async () => {
+    let cl = new msg.CommandLine(log.Extension.displayName);
+    cl.Args.push(session.uri.fsPath);
+    let isSettled = false;
+    let pending = session.project.send<msg.Diagnostic>(cl, { timeout: 0 });
+    pending.then(() => isSettled = true, () => isSettled = true);
+    // There is no alias tree for this loop, so the request is rejected while
+    // the command line is still processed by the server.
+    let request = new msg.AliasTree;
+    request.FuncID = 1;
+    request.LoopID = 42;
+    await assert.rejects(
+      session.project.send<msg.AliasTree>(request, { notify: false }),
+      /has been rejected/);
+    assert.ok(!isSettled);
+    assert.ok(session.project.cancel());
+    await assert.rejects(pending, /has been cancelled/);
+    assert.ok(session.engine.isActive(session.uri));
+  });
+});
+
+suite('Timeout of requests with legacy server', () => {
+  let session: Session;
+
+  suiteSetup(async () => {
+    let dir = prepareProject('loops', {},
+      ['--protocol', '1', '--delay', '1000']);
+    let uri = vscode.Uri.file(path.join(dir, 'loops.c'));
+    let engine: ProjectEngine =
+      vscode.extensions.getExtension(`DVM.${log.Extension.id}`).exports;
+    let project = await engine.start(
+      await vscode.workspace.openTextDocument(uri),
+      server.tools.find(t => t.name === 'tsar'));
+    session = { engine, project, uri };
+  });
+
+  suiteTeardown(async () => {
+    if (session)
+      await stopSession(session);
+  });
+
+  test('Late answer to a timed out request is ignored', async () => {
+    let commandLine = () => {
+      let cl = new msg.CommandLine(log.Extension.displayName);
+      cl.Args.push(session.uri.fsPath);
+      return cl;
+    };
+    let first = session.project.send<msg.Diagnostic>(commandLine(),
+      { timeout: 500 });
+    await assert.rejects(first, /has not been answered in 500 ms/);
+    let start = Date.now();
+    await session.project.send<msg.Diagnostic>(commandLine(), { timeout: 0 });
+    // The answer to the first request arrives earlier, it must not be taken
+    // for the answer to the second one which is delayed by the server.
+    assert.ok(Date.now() - start >= 900, `${Date.now() - start} ms`);
+    assert.ok(session.engine.isActive(session.uri));
+  });
+});
@@ -0,0 +1,109 @@
+//===--- region.test.ts ---- Transformation Region Tests ---- TypeScript --===//
+//
+//                           TSAR Advisor (SAPFOR)
+//
+// This contains tests which check that transformations can be restricted to
+// a part of a source file.
+//
+//===----------------------------------------------------------------------===//
+
+'use strict';
+
+import * as assert from 'assert';
+import { extractRegion, TransformRegion, wrapRegion } from '../../src/region';
+
+suite('Transformation regions', () => {
+  let text = [
+    'int main() {',
+    '  int Y = 1;',
+    '  Y = twice(Y);',
+    '  return Y;',
+    '}'
+  ].join('\n');
+  let statement: TransformRegion = {
+    start: 2, end: 2, scope: false, description: 'lines 3-3'
+  };
+  let func: TransformRegion = {
+    start: 0, end: 4, scope: true, description: 'function main'
+  };
+
+  test('Statements are wrapped in pragma', () => {
+    assert.strictEqual(wrapRegion(text, statement, 'inline'), [
+      'int main() {',
+      '  int Y = 1;',
+      '#pragma spf transform inline',
+      '{',
+      '  Y = twice(Y);',
+      '}',
+      '  return Y;',
+      '}'
+    ].join('\n'));
+  });
+
+  test('Pragma is inserted into a function body', () => {
+    assert.strictEqual(wrapRegion(text, func, 'rename'), [
+      'int main() {',
+      '#pragma spf transform rename',
+      '  int Y = 1;',
+      '  Y = twice(Y);',
+      '  return Y;',
+      '}'
+    ].join('\n'));
+  });
+
+  test('Transformed region is inserted into the original text', () => {
+    let transformed = [
+      'int main() {',
+      '  int Y = 1;',
+      '{',
+      '  Y = 2 * Y;',
+      '}',
+      '  return Y;',
+      '}'
+    ].join('\n');
+    assert.strictEqual(extractRegion(text, transformed, statement, 'inline'),
+      text.replace('twice(Y)', '2 * Y'));
+  });
+
+  test('Changes outside the region are not accepted', () => {
+    let transformed = wrapRegion(text, statement, 'inline')
+      .replace('int Y = 1', 'int Y = 2');
+    assert.strictEqual(
+      extractRegion(text, transformed, statement, 'inline'), undefined);
+  });
+
+  test('Declarations used after the region are not wrapped', () => {
+    let declaration: TransformRegion = {
+      start: 1, end: 2, scope: false, description: 'lines 2-3'
+    };
+    assert.throws(() => wrapRegion(text, declaration, 'inline'),
+      /variables Y are declared in the region/);
+    // Variables declared in nested blocks or used in the region only are
+    // not affected.
+    let local = text.replace('  int Y = 1;',
+      '  { int Y = 2; } int *R = 0, X[2] = { 1, 2 }; X[0] = Y;');
+    assert.ok(wrapRegion(local, declaration, 'inline'));
+  });
+
+  test('Only whole statements are wrapped', () => {
+    let call = [
+      'int main() {',
+      '  int Y = twice(1,',
+      '    2);',
+      '  return Y;',
+      '}'
+    ].join('\n');
+    assert.throws(() => wrapRegion(call,
+      { start: 2, end: 2, scope: false, description: 'lines 3-3' }, 'inline'),
+      /select whole statements/);
+  });
+
+  test('Pragma is inserted after the brace which opens a body', () => {
+    let commented = text.replace('int main() {',
+      'int main(/* { */) { // }');
+    assert.strictEqual(wrapRegion(commented, func, 'rename').split('\n')[1],
+      '#pragma spf transform rename');
+    assert.strictEqual(wrapRegion(commented, func, 'rename').split('\n')[0],
+      'int main(/* { */) {');
+  });
+});